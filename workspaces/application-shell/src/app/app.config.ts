@@ -1,12 +1,56 @@
-import { ApplicationConfig, provideBrowserGlobalErrorListeners, provideZonelessChangeDetection } from '@angular/core';
-import { provideRouter } from '@angular/router';
+import { ApplicationConfig, isDevMode, provideBrowserGlobalErrorListeners, provideZonelessChangeDetection } from '@angular/core';
+import { provideRouter, withComponentInputBinding } from '@angular/router';
 
-import { routes } from './app.routes';
+import { provideManifestRoutes, routes } from './app.routes';
+import { SessionStorageMessagePersistenceAdapter } from './services/message-persistence';
+import { provideCrossTabSync } from './services/cross-tab-transport';
+import { provideIframeRemotes } from './services/post-message-bridge';
+import { provideMessagePersistence } from './services/mf-communication.service';
+import { provideMessagePolicy } from './services/message-policy';
+import { loggingInterceptor, provideMessageInterceptors, redactionInterceptor } from './services/message-interceptors';
+import { provideSharedState } from './services/shared-state';
+import { provideAuth } from './services/session';
+import { FakeAuthProvider } from './services/fake-auth-provider';
 
 export const appConfig: ApplicationConfig = {
   providers: [
     provideBrowserGlobalErrorListeners(),
     provideZonelessChangeDetection(),
-    provideRouter(routes)
+    provideRouter(routes, withComponentInputBinding()),
+    provideManifestRoutes(),
+    provideMessagePersistence({
+      adapter: new SessionStorageMessagePersistenceAdapter(),
+      rules: { default: 'latest' }
+    }),
+    provideCrossTabSync({ types: ['default'] }),
+    provideMessagePolicy({
+      rules: [
+        // The shell may send anything to anyone
+        { from: 'application-shell', to: '*', types: '**' },
+        // Remotes may exchange text messages and pings, but not broadcast
+        {
+          from: '*',
+          to: ['application-shell', 'feature-one-app', 'feature-two-app', 'feature-two-iframe'],
+          types: ['default', 'ping']
+        }
+      ]
+    }),
+    provideMessageInterceptors([
+      // Never store credentials a micro frontend puts in a payload
+      redactionInterceptor({ fields: ['password', 'token'] }),
+      // Log messages as sent in development, including the ones validation or the policy reject afterwards
+      ...(isDevMode() ? [loggingInterceptor({ phases: ['send'] })] : [])
+    ]),
+    provideSharedState({
+      currentUser: { owners: 'application-shell', initial: null },
+      selectedCustomer: { owners: 'feature-one-app', initial: null },
+      cart: { owners: ['feature-one-app', 'feature-two-app'], initial: { items: [] } }
+    }),
+    // Development users only; swap in an OpenID Connect provider for real deployments
+    provideAuth(new FakeAuthProvider()),
+    provideIframeRemotes([
+      // Gated like feature-two-app in the manifest, since it is the same app
+      { name: 'feature-two-iframe', url: 'http://localhost:6200/', roles: ['feature-two'] }
+    ])
   ]
 };
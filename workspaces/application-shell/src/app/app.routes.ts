@@ -1,34 +1,71 @@
-import { loadRemoteModule } from '@angular-architects/module-federation';
-import { Routes } from '@angular/router';
+import { inject, Provider } from '@angular/core';
+import { Route, ROUTES, Routes } from '@angular/router';
+import { RemoteHostComponent } from './components/remote-host.component';
+import { RemoteLayout } from './services/remote-layout';
+import { REMOTE_DEFINITIONS, RemoteDefinition } from './services/remote-manifest';
+import { remoteAccessGuard, SessionService } from './services/session';
 
+// Routes of the shell itself; the routes of the remotes are built from the manifest
 export const routes: Routes = [
-  {
-    path: 'one',
-    loadComponent: () =>
-      loadRemoteModule({
-        type: 'manifest',
-        remoteName: 'feature-one-app',
-        exposedModule: './ComponentOne',
-      }).then((m) => {
-        console.log('Loading', m);
-        return m.FeatureOneApp;
-      }),
-  },
-  {
-    path: 'two',
-    loadComponent: () =>
-      loadRemoteModule({
-        type: 'manifest',
-        remoteName: 'feature-two-app',
-        exposedModule: './ComponentTwo',
-      }).then((m) => m.FeatureTwoApp),
-  },
   {
     path: 'all',
-    loadComponent: () => import('./components/all-micro-frontends.component').then(m => m.AllMicroFrontendsComponent)
+    loadComponent: () => import('./components/all-micro-frontends.component').then(m => m.AllMicroFrontendsComponent),
+    data: {
+      layout: {
+        columns: 3,
+        slots: [
+          { id: 'main', remote: 'feature-one-app', span: 2, lazy: false },
+          // Feature Two works on the order the page is about
+          { id: 'side', remote: 'feature-two-app', inputs: { contextId: 'order-42' } },
+        ],
+      } satisfies RemoteLayout,
+    },
   },
   {
-    path: '**',
-    redirectTo: 'one',
+    path: 'status',
+    loadComponent: () => import('./components/remote-dashboard.component').then(m => m.RemoteDashboardComponent)
   },
 ];
+
+/**
+ * Builds the route of a remote declared in the manifest
+ * @param remote The remote definition
+ * @returns A route mounting the remote through the remote host, which needs component input binding.
+ * It also matches every path below the remote's route, which the remote owns, so its deep links
+ * survive a reload and navigating between them keeps the remote mounted. The route only matches when
+ * the signed-in user has one of the remote's roles.
+ */
+export function buildRemoteRoute(remote: RemoteDefinition): Route {
+  return {
+    path: remote.routePath,
+    component: RemoteHostComponent,
+    data: { remote },
+    canMatch: [remoteAccessGuard],
+    children: [{ path: '**', children: [] }],
+  };
+}
+
+/**
+ * Adds a route for every remote of the manifest, and redirects unknown paths to the first one the user may access.
+ * Must be listed after `provideRouter(routes)`, so the wildcard route comes last.
+ * @returns The provider to add to the application config
+ */
+export function provideManifestRoutes(): Provider {
+  return {
+    provide: ROUTES,
+    multi: true,
+    useFactory: (): Routes => {
+      const remotes = inject(REMOTE_DEFINITIONS);
+      return [
+        ...remotes.map(buildRemoteRoute),
+        {
+          path: '**',
+          redirectTo: () => {
+            const session = inject(SessionService);
+            return remotes.find(remote => session.canAccess(remote))?.routePath ?? 'all';
+          },
+        },
+      ];
+    },
+  };
+}
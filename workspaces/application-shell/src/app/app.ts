@@ -1,13 +1,18 @@
 import { Component, computed, inject, signal } from '@angular/core';
+import { NgComponentOutlet } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { RouterOutlet, RouterLink, RouterLinkActive } from '@angular/router';
 import { MicroFrontendsCommunicationService } from './services/mf-communication.service';
+import { REMOTE_DEFINITIONS } from './services/remote-manifest';
+import { SessionService } from './services/session';
+import { DEVELOPMENT_USERS } from './services/fake-auth-provider';
 import { MicroFrontendMessage } from '@angular-microfrontends-poc/shared-types';
+import { DEVTOOLS_COMPONENT } from './devtools';
 
 @Component({
   selector: 'app-root',
   standalone: true,
-  imports: [RouterOutlet, RouterLink, RouterLinkActive, FormsModule],
+  imports: [RouterOutlet, RouterLink, RouterLinkActive, FormsModule, NgComponentOutlet],
   templateUrl: './app.html',
   styleUrl: './app.css'
 })
@@ -15,6 +20,21 @@ export class App {
   private readonly mfeCommunicationService = inject(MicroFrontendsCommunicationService);
   protected readonly title = signal('application-shell');
   
+  // Session of the signed-in user, shared read-only with the remotes
+  protected readonly sessionService = inject(SessionService);
+  protected readonly session = this.sessionService.session;
+  
+  // Account to sign in with; the fake auth provider knows the development users
+  protected readonly loginHint = signal<string>(DEVELOPMENT_USERS[0].id);
+  protected readonly developmentUsers = DEVELOPMENT_USERS;
+  
+  // Remotes declared in the manifest that the user may access, in navigation order
+  private readonly allRemotes = inject(REMOTE_DEFINITIONS);
+  protected readonly remotes = computed(() => this.allRemotes.filter(remote => this.sessionService.canAccess(remote)));
+  
+  // Devtools overlay, null in production builds
+  protected readonly devtools = DEVTOOLS_COMPONENT;
+  
   // The names of the target micro frontends
   private readonly featureOneName = 'feature-one-app';
   private readonly featureTwoName = 'feature-two-app';
@@ -73,10 +93,30 @@ export class App {
     };
   });
 
+  // When the session expires, for display
+  protected readonly sessionExpiry = computed(() => {
+    const session = this.session();
+    return session ? new Date(session.expiresAt).toLocaleTimeString() : null;
+  });
+
   constructor() {
     this.mfeCommunicationService.init();
   }
   
+  /**
+   * Signs in the account named by the login hint
+   */
+  signIn(): void {
+    this.sessionService.signIn(this.loginHint());
+  }
+  
+  /**
+   * Signs the user out
+   */
+  signOut(): void {
+    this.sessionService.signOut();
+  }
+  
   /**
    * Sends a message to the feature-one micro frontend
    */
@@ -84,7 +124,8 @@ export class App {
     this.mfeCommunicationService.sendMessageToMicroFrontend(
       this.featureOneName, // target micro frontend
       'default',          // message type
-      this.messageToFeatureOne() // message payload
+      this.messageToFeatureOne(), // message payload
+      { delivery: 'replay-last-per-type' } // delivered once feature-one is mounted
     );
   }
   
@@ -95,7 +136,8 @@ export class App {
     this.mfeCommunicationService.sendMessageToMicroFrontend(
       this.featureTwoName, // target micro frontend
       'default',          // message type
-      this.messageToFeatureTwo() // message payload
+      this.messageToFeatureTwo(), // message payload
+      { delivery: 'replay-last-per-type' } // delivered once feature-two is mounted
     );
   }
 }
\ No newline at end of file
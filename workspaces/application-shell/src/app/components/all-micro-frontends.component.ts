@@ -1,32 +1,56 @@
 import { 
   Component, 
-  ViewChild, 
-  ViewContainerRef, 
-  AfterViewInit,
   OnInit,
-  EnvironmentInjector,
-  inject
+  computed,
+  inject,
+  input,
+  signal
 } from '@angular/core';
-import { loadRemoteModule } from '@angular-architects/module-federation';
+import { MicroFrontendOutputEvent } from '@angular-microfrontends-poc/shared-types';
 import { MicroFrontendsCommunicationService } from '../services/mf-communication.service';
+import { IFRAME_REMOTES } from '../services/post-message-bridge';
+import { REMOTE_DEFINITIONS } from '../services/remote-manifest';
+import { createManifestLayout, RemoteLayout } from '../services/remote-layout';
+import { SessionService } from '../services/session';
+import { IframeRemoteComponent } from './iframe-remote.component';
+import { RemoteHostComponent } from './remote-host.component';
+import { RemoteErrorComponent } from './remote-error.component';
 
 @Component({
   selector: 'app-all-micro-frontends',
   standalone: true,
+  imports: [IframeRemoteComponent, RemoteHostComponent, RemoteErrorComponent],
   template: `
     <div class="all-mfe-container">
       <h2>All Micro Frontends</h2>
       
-      <div class="mfe-wrapper">
-        <div class="mfe-container feature-one">
-          <h3>Feature One App</h3>
-          <div #featureOneContainer class="mfe-content"></div>
-        </div>
+      <div class="mfe-wrapper" [style.grid-template-columns]="'repeat(' + columns() + ', minmax(300px, 1fr))'">
+        @for (slot of slots(); track slot.id) {
+          <div class="mfe-container" [class]="slot.remote" [style.grid-column]="'span ' + (slot.span ?? 1)">
+            <h3>{{ slot.title }}</h3>
+            @if (lastOutputs()[slot.id]; as event) {
+              <div class="mfe-output">{{ event.output }}: {{ event.value }}</div>
+            }
+            @if (!slot.definition) {
+              <app-remote-error [displayName]="slot.title" error="The remote is not declared in the manifest" [retryable]="false" />
+            } @else if (slot.lazy === false) {
+              <app-remote-host class="mfe-content" [remote]="slot.definition" [inputs]="slot.inputs ?? {}" (remoteOutput)="onRemoteOutput(slot.id, $event)" />
+            } @else {
+              @defer (on viewport) {
+                <app-remote-host class="mfe-content" [remote]="slot.definition" [inputs]="slot.inputs ?? {}" (remoteOutput)="onRemoteOutput(slot.id, $event)" />
+              } @placeholder {
+                <div class="mfe-placeholder">{{ slot.title }} loads when it scrolls into view</div>
+              }
+            }
+          </div>
+        }
         
-        <div class="mfe-container feature-two">
-          <h3>Feature Two App</h3>
-          <div #featureTwoContainer class="mfe-content"></div>
-        </div>
+        @for (remote of iframeRemotes(); track remote.name) {
+          <div class="mfe-container iframe-remote">
+            <h3>{{ remote.name }} (iframe)</h3>
+            <app-iframe-remote class="mfe-content" [remote]="remote" />
+          </div>
+        }
       </div>
     </div>
   `,
@@ -42,25 +66,40 @@ import { MicroFrontendsCommunicationService } from '../services/mf-communication
     }
     
     .mfe-wrapper {
-      display: flex;
-      flex-wrap: wrap;
+      display: grid;
       gap: 20px;
     }
     
     .mfe-container {
-      flex: 1;
-      min-width: 300px;
+      min-width: 0;
       padding: 15px;
       border-radius: 8px;
       box-shadow: 0 2px 8px rgba(0, 0, 0, 0.1);
+      border-top: 4px solid #3f51b5;
     }
     
-    .feature-one {
-      border-top: 4px solid #4caf50;
+    .feature-one-app {
+      border-top-color: #4caf50;
     }
     
-    .feature-two {
-      border-top: 4px solid #9c27b0;
+    .feature-two-app {
+      border-top-color: #9c27b0;
+    }
+    
+    .mfe-output {
+      margin-bottom: 10px;
+      font-size: 0.85em;
+      color: #777;
+    }
+    
+    .mfe-placeholder {
+      min-height: 200px;
+      color: #777;
+      font-style: italic;
+    }
+    
+    .iframe-remote {
+      border-top: 4px solid #ff9800;
     }
     
     h3 {
@@ -70,75 +109,52 @@ import { MicroFrontendsCommunicationService } from '../services/mf-communication
     }
   `
 })
-export class AllMicroFrontendsComponent implements OnInit, AfterViewInit {
-  @ViewChild('featureOneContainer', { read: ViewContainerRef }) featureOneContainer!: ViewContainerRef;
-  @ViewChild('featureTwoContainer', { read: ViewContainerRef }) featureTwoContainer!: ViewContainerRef;
-  
-  private environmentInjector = inject(EnvironmentInjector);
+export class AllMicroFrontendsComponent implements OnInit {
   private communicationService = inject(MicroFrontendsCommunicationService);
   
-  ngOnInit() {
-    // Make sure communication service is initialized
-    if (!window.CentralizedAPI) {
-      console.log('Initializing Communication Service in All Micro Frontends View');
-      this.communicationService.init();
-    }
-  }
+  // Remotes declared in the manifest, in navigation order
+  private readonly remotes = inject(REMOTE_DEFINITIONS);
   
-  async ngAfterViewInit() {
-    await this.loadFeatureOne();
-    await this.loadFeatureTwo();
-  }
+  private readonly session = inject(SessionService);
   
-  private async loadFeatureOne() {
-    try {
-      // Load Feature One App
-      const featureOneModule = await loadRemoteModule({
-        type: 'manifest',
-        remoteName: 'feature-one-app',
-        exposedModule: './ComponentOne'
-      });
-      
-      // Clear container just in case
-      this.featureOneContainer.clear();
-      
-      // Create the component using the ViewContainerRef to ensure proper Angular integration
-      const componentRef = this.featureOneContainer.createComponent(featureOneModule.FeatureOneApp, {
-        environmentInjector: this.environmentInjector
-      });
-      
-      // Detect changes to ensure the component renders properly
-      componentRef.changeDetectorRef.detectChanges();
-      
-      console.log('Feature One App loaded successfully');
-    } catch (error) {
-      console.error('Error loading Feature One App:', error);
-    }
+  // Layout set in the route data, every remote of the manifest when omitted
+  readonly layout = input<RemoteLayout>();
+  
+  private readonly resolvedLayout = computed(() => this.layout() ?? createManifestLayout(this.remotes));
+  
+  protected readonly columns = computed(() => this.resolvedLayout().columns ?? 2);
+  
+  // Slots with the definition of their remote, without the remotes the user may not access;
+  // each slot loads and fails independently
+  protected readonly slots = computed(() =>
+    this.resolvedLayout().slots
+      .map(slot => {
+        const definition = this.remotes.find(remote => remote.name === slot.remote);
+        return { ...slot, definition, title: slot.title ?? definition?.displayName ?? slot.remote };
+      })
+      .filter(({ definition }) => !definition || this.session.canAccess(definition))
+  );
+  
+  // Remotes hosted in iframes and connected over the postMessage bridge, without the ones the user may not access
+  private readonly allIframeRemotes = inject(IFRAME_REMOTES);
+  
+  protected readonly iframeRemotes = computed(() => this.allIframeRemotes.filter(remote => this.session.canAccess(remote)));
+  
+  // Last value emitted by an output of each slot's remote
+  protected readonly lastOutputs = signal<Record<string, MicroFrontendOutputEvent>>({});
+  
+  ngOnInit() {
+    // Make sure communication service is initialized
+    this.communicationService.init();
   }
   
-  private async loadFeatureTwo() {
-    try {
-      // Load Feature Two App
-      const featureTwoModule = await loadRemoteModule({
-        type: 'manifest',
-        remoteName: 'feature-two-app',
-        exposedModule: './ComponentTwo'
-      });
-      
-      // Clear container just in case
-      this.featureTwoContainer.clear();
-      
-      // Create the component using the ViewContainerRef to ensure proper Angular integration
-      const componentRef = this.featureTwoContainer.createComponent(featureTwoModule.FeatureTwoApp, {
-        environmentInjector: this.environmentInjector
-      });
-      
-      // Detect changes to ensure the component renders properly
-      componentRef.changeDetectorRef.detectChanges();
-      
-      console.log('Feature Two App loaded successfully');
-    } catch (error) {
-      console.error('Error loading Feature Two App:', error);
-    }
+  /**
+   * Records a value emitted by the remote of a slot
+   * @param slotId The slot the remote is mounted in
+   * @param event The output and its value
+   */
+  onRemoteOutput(slotId: string, event: MicroFrontendOutputEvent) {
+    console.log(`Output ${event.output} of ${event.remote} in slot ${slotId}:`, event.value);
+    this.lastOutputs.update(outputs => ({ ...outputs, [slotId]: event }));
   }
 }
\ No newline at end of file
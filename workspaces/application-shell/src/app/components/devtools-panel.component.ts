@@ -0,0 +1,400 @@
+import { ChangeDetectionStrategy, Component, computed, DestroyRef, inject, signal } from '@angular/core';
+import { DatePipe, JsonPipe } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import {
+  matchesTopicPattern,
+  MicroFrontendMessage,
+  MicroFrontendSendResult,
+} from '@angular-microfrontends-poc/shared-types';
+import { MicroFrontendsCommunicationService } from '../services/mf-communication.service';
+
+// Version of the session files written by the devtools
+const SESSION_VERSION = 1;
+
+// Most recent messages kept in the timeline, like the shell's default message retention
+const TIMELINE_LIMIT = 1000;
+
+/**
+ * Messages exported from the devtools
+ */
+export interface DevtoolsSession {
+  version: number;
+  exportedAt: number;
+  messages: MicroFrontendMessage<unknown>[];
+}
+
+/**
+ * Overlay showing the bus traffic, toggled with its button or Ctrl+Shift+D.
+ * Only part of development builds, see `devtools.ts`.
+ */
+@Component({
+  selector: 'app-devtools-panel',
+  standalone: true,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [DatePipe, JsonPipe, FormsModule],
+  host: {
+    '(document:keydown.control.shift.d)': 'toggle()',
+  },
+  template: `
+    <button type="button" class="devtools-toggle" (click)="toggle()">Devtools ({{ timeline().length }})</button>
+
+    @if (open()) {
+      <aside class="devtools">
+        <header>
+          <button type="button" [class.active]="tab() === 'timeline'" (click)="tab.set('timeline')">Timeline</button>
+          <button type="button" [class.active]="tab() === 'signals'" (click)="tab.set('signals')">Signals</button>
+          <span class="spacer"></span>
+          <button type="button" (click)="exportSession()">Export</button>
+          <label class="import">Import<input type="file" accept="application/json" (change)="importSession($event)" /></label>
+          <button type="button" (click)="clear()">Clear</button>
+          <button type="button" (click)="toggle()">Close</button>
+        </header>
+
+        @if (status(); as status) {
+          <div class="status">{{ status }}</div>
+        }
+
+        @if (tab() === 'timeline') {
+          <div class="filters">
+            <select [ngModel]="fromFilter()" (ngModelChange)="fromFilter.set($event)">
+              <option value="">Any sender</option>
+              @for (name of senders(); track name) {
+                <option [value]="name">{{ name }}</option>
+              }
+            </select>
+            <select [ngModel]="toFilter()" (ngModelChange)="toFilter.set($event)">
+              <option value="">Any recipient</option>
+              @for (name of recipients(); track name) {
+                <option [value]="name">{{ name }}</option>
+              }
+            </select>
+            <input [ngModel]="typeFilter()" (ngModelChange)="typeFilter.set($event)" placeholder="Type pattern, e.g. cart.*" />
+          </div>
+
+          <div class="panes">
+            <ol class="timeline">
+              @for (message of filteredTimeline(); track $index) {
+                <li [class.selected]="message === selected()" (click)="select(message)">
+                  <span class="time">{{ message.timestamp | date: 'HH:mm:ss.SSS' }}</span>
+                  {{ message.from }} &rarr; {{ message.to }}
+                  <strong>{{ message.type }}</strong>
+                </li>
+              } @empty {
+                <li class="empty">No messages</li>
+              }
+            </ol>
+
+            @if (selected(); as message) {
+              <div class="details">
+                <pre>{{ message | json }}</pre>
+                <div class="editor">
+                  <input [ngModel]="editTo()" (ngModelChange)="editTo.set($event)" placeholder="Recipient" />
+                  <input [ngModel]="editType()" (ngModelChange)="editType.set($event)" placeholder="Type" />
+                  <textarea rows="6" [ngModel]="editPayload()" (ngModelChange)="editPayload.set($event)"></textarea>
+                  <div>
+                    @if (message.kind === 'request' || message.kind === 'response') {
+                      <span class="time">Requests and responses cannot be sent again</span>
+                    } @else {
+                      <button type="button" (click)="resend(message)">Re-send</button>
+                      <button type="button" (click)="sendEdited(message)">Send edited</button>
+                    }
+                  </div>
+                </div>
+              </div>
+            }
+          </div>
+        } @else {
+          <table class="signals">
+            @for (entry of signalValues(); track entry.key) {
+              <tr>
+                <td>{{ entry.key }}</td>
+                <td>
+                  @if (entry.message) {
+                    <code>{{ entry.message.payload | json }}</code>
+                    <span class="time">{{ entry.message.timestamp | date: 'HH:mm:ss' }}</span>
+                  } @else {
+                    -
+                  }
+                </td>
+              </tr>
+            }
+          </table>
+        }
+      </aside>
+    }
+  `,
+  styles: `
+    .devtools-toggle {
+      position: fixed;
+      right: 10px;
+      bottom: 10px;
+      z-index: 1001;
+    }
+
+    .devtools {
+      position: fixed;
+      left: 0;
+      right: 0;
+      bottom: 0;
+      height: 45vh;
+      z-index: 1000;
+      display: flex;
+      flex-direction: column;
+      background: #263238;
+      color: #eceff1;
+      font: 12px monospace;
+    }
+
+    header, .filters {
+      display: flex;
+      gap: 6px;
+      padding: 6px;
+      border-bottom: 1px solid #455a64;
+    }
+
+    .spacer {
+      flex: 1;
+    }
+
+    button.active {
+      font-weight: bold;
+    }
+
+    .import input {
+      display: none;
+    }
+
+    .import {
+      cursor: pointer;
+      text-decoration: underline;
+    }
+
+    .status {
+      padding: 4px 6px;
+      background: #37474f;
+    }
+
+    .panes {
+      display: flex;
+      flex: 1;
+      min-height: 0;
+    }
+
+    .timeline, .details, .signals {
+      overflow: auto;
+      margin: 0;
+    }
+
+    .timeline {
+      flex: 1;
+      list-style: none;
+      padding: 0;
+    }
+
+    .timeline li {
+      padding: 3px 6px;
+      cursor: pointer;
+    }
+
+    .timeline li.selected {
+      background: #455a64;
+    }
+
+    .time {
+      color: #90a4ae;
+      margin-right: 6px;
+    }
+
+    .details {
+      flex: 1;
+      padding: 6px;
+      border-left: 1px solid #455a64;
+    }
+
+    .editor {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+    }
+
+    .signals td {
+      padding: 3px 6px;
+      vertical-align: top;
+    }
+  `
+})
+export class DevtoolsPanelComponent {
+  private readonly communicationService = inject(MicroFrontendsCommunicationService);
+
+  protected readonly open = signal(false);
+  protected readonly tab = signal<'timeline' | 'signals'>('timeline');
+
+  // Messages retained when the panel was created, then every new message, oldest first and at most TIMELINE_LIMIT
+  protected readonly timeline = signal<MicroFrontendMessage<unknown>[]>(this.communicationService.getAllMessages());
+
+  // Outcome of the last action
+  protected readonly status = signal<string | undefined>(undefined);
+
+  // Timeline filters, empty to match every message
+  protected readonly fromFilter = signal('');
+  protected readonly toFilter = signal('');
+  protected readonly typeFilter = signal('');
+
+  protected readonly senders = computed(() => [...new Set(this.timeline().map(message => message.from))].sort());
+  protected readonly recipients = computed(() => [...new Set(this.timeline().map(message => message.to))].sort());
+
+  protected readonly filteredTimeline = computed(() => {
+    const from = this.fromFilter();
+    const to = this.toFilter();
+    const type = this.typeFilter().trim();
+
+    return this.timeline().filter(message =>
+      (!from || message.from === from) &&
+      (!to || message.to === to) &&
+      (!type || matchesTopicPattern(type, message.type))
+    );
+  });
+
+  // Message shown in the details pane and its edited copy
+  protected readonly selected = signal<MicroFrontendMessage<unknown> | undefined>(undefined);
+  protected readonly editTo = signal('');
+  protected readonly editType = signal('');
+  protected readonly editPayload = signal('');
+
+  // Current value of every message signal of the shell, re-read whenever a message arrives
+  protected readonly signalValues = computed(() => {
+    this.timeline();
+    return [...this.communicationService.messageSignals.entries()]
+      .map(([key, messageSignal]) => ({ key, message: messageSignal() }))
+      .sort((a, b) => a.key.localeCompare(b.key));
+  });
+
+  constructor() {
+    const stop = this.communicationService.observeMessages(message => {
+      this.timeline.update(timeline => [...timeline, message].slice(-TIMELINE_LIMIT));
+    });
+    inject(DestroyRef).onDestroy(stop);
+  }
+
+  protected toggle(): void {
+    this.open.update(open => !open);
+  }
+
+  /**
+   * Shows a message in the details pane, ready to be edited
+   * @param message The message to inspect
+   */
+  protected select(message: MicroFrontendMessage<unknown>): void {
+    this.selected.set(message);
+    this.editTo.set(message.to);
+    this.editType.set(message.type);
+    this.editPayload.set(JSON.stringify(message.payload, null, 2));
+  }
+
+  /**
+   * Sends a message again as it was sent
+   * @param message The message to send again
+   */
+  protected resend(message: MicroFrontendMessage<unknown>): void {
+    this.reportSend(this.communicationService.resendMessage(message));
+  }
+
+  /**
+   * Sends the edited copy of a message on behalf of its original sender
+   * @param message The message that was edited
+   */
+  protected sendEdited(message: MicroFrontendMessage<unknown>): void {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(this.editPayload());
+    } catch (error) {
+      this.status.set(`The payload is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+
+    this.reportSend(
+      this.communicationService.resendMessage({ ...message, to: this.editTo(), type: this.editType(), payload })
+    );
+  }
+
+  /**
+   * Downloads the timeline as a session file
+   */
+  protected exportSession(): void {
+    const session: DevtoolsSession = { version: SESSION_VERSION, exportedAt: Date.now(), messages: this.timeline() };
+    const url = URL.createObjectURL(new Blob([JSON.stringify(session, null, 2)], { type: 'application/json' }));
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `mf-session-${new Date(session.exportedAt).toISOString()}.json`;
+    link.click();
+    // Revoking the URL right away may cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url));
+
+    this.status.set(`Exported ${session.messages.length} messages`);
+  }
+
+  /**
+   * Loads a session file into the timeline only. Its messages are neither validated, stored nor delivered;
+   * resending one passes it through the shell's validation, policy and interceptors.
+   * @param event The change event of the file input
+   */
+  protected async importSession(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) {
+      return;
+    }
+
+    try {
+      const session: unknown = JSON.parse(await file.text());
+      if (!isSession(session)) {
+        throw new Error('not a devtools session file');
+      }
+
+      const { messages } = session;
+      this.timeline.update(timeline =>
+        [...timeline, ...messages].sort((a, b) => a.timestamp - b.timestamp).slice(-TIMELINE_LIMIT)
+      );
+      this.status.set(`Imported ${messages.length} messages from ${file.name}`);
+    } catch (error) {
+      this.status.set(`Could not import ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  protected clear(): void {
+    this.timeline.set([]);
+    this.selected.set(undefined);
+    this.status.set(undefined);
+  }
+
+  private reportSend(result: MicroFrontendSendResult): void {
+    if (result.accepted) {
+      this.status.set(result.deferred ? 'Sent, pending an interceptor or the leader tab' : 'Sent');
+    } else {
+      this.status.set(`Rejected (${result.rejection.code}): ${result.rejection.errors.join(', ')}`);
+    }
+  }
+}
+
+/**
+ * Checks that imported data is a session file of the current version
+ */
+function isSession(value: unknown): value is DevtoolsSession {
+  const session = value as Partial<DevtoolsSession> | null;
+  return session?.version === SESSION_VERSION && Array.isArray(session.messages) && session.messages.every(isMessage);
+}
+
+/**
+ * Checks that imported data has the fields of a message
+ */
+function isMessage(value: unknown): value is MicroFrontendMessage<unknown> {
+  const message = value as Partial<MicroFrontendMessage<unknown>> | null;
+  return (
+    typeof message?.from === 'string' &&
+    typeof message.to === 'string' &&
+    typeof message.type === 'string' &&
+    typeof message.timestamp === 'number'
+  );
+}
@@ -0,0 +1,64 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  computed,
+  ElementRef,
+  inject,
+  input,
+  OnDestroy,
+  viewChild
+} from '@angular/core';
+import { DomSanitizer } from '@angular/platform-browser';
+import { IframeRemote, PostMessageBridgeHost } from '../services/post-message-bridge';
+
+@Component({
+  selector: 'app-iframe-remote',
+  standalone: true,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  template: `
+    <iframe
+      #frame
+      class="iframe-remote"
+      [src]="safeUrl()"
+      [title]="remote().name"
+      sandbox="allow-scripts allow-same-origin allow-forms"
+      (load)="connect()"
+    ></iframe>
+  `,
+  styles: `
+    .iframe-remote {
+      width: 100%;
+      min-height: 600px;
+      border: none;
+    }
+  `
+})
+export class IframeRemoteComponent implements OnDestroy {
+  readonly remote = input.required<IframeRemote>();
+
+  private readonly frame = viewChild.required<ElementRef<HTMLIFrameElement>>('frame');
+  private readonly bridgeHost = inject(PostMessageBridgeHost);
+  private readonly sanitizer = inject(DomSanitizer);
+  private disconnect?: () => void;
+
+  // The URL comes from the shell's own configuration, not from user input
+  protected readonly safeUrl = computed(() => this.sanitizer.bypassSecurityTrustResourceUrl(this.remote().url));
+
+  /**
+   * Accepts the handshake of the iframe once it has loaded.
+   * The remote retries its hello until the shell answers, so connecting on load is early enough.
+   */
+  connect(): void {
+    const frameWindow = this.frame().nativeElement.contentWindow;
+    if (!frameWindow) {
+      return;
+    }
+
+    this.disconnect?.();
+    this.disconnect = this.bridgeHost.connect(frameWindow, this.remote());
+  }
+
+  ngOnDestroy(): void {
+    this.disconnect?.();
+  }
+}
@@ -0,0 +1,144 @@
+import { ChangeDetectionStrategy, Component, DestroyRef, inject, OnInit } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { RemoteLoaderService } from '../services/remote-loader';
+import { RemoteRegistryService } from '../services/remote-registry';
+
+// Milliseconds between two probes while the dashboard is shown
+const REFRESH_INTERVAL = 15000;
+
+@Component({
+  selector: 'app-remote-dashboard',
+  standalone: true,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [DatePipe],
+  template: `
+    <div class="remote-dashboard">
+      <header>
+        <h2>Remote Status</h2>
+        <span class="contract">Shell contract: {{ registry.apiVersion }}</span>
+        <button type="button" (click)="registry.refresh()">Refresh</button>
+      </header>
+
+      @if (registry.remotes().length === 0) {
+        <p>No remotes are declared in the manifest.</p>
+      } @else {
+        <table>
+          <thead>
+            <tr>
+              <th>Remote</th>
+              <th>Entry point</th>
+              <th>Loaded</th>
+              <th>Version</th>
+              <th>Contract</th>
+              <th>Checked</th>
+              <th>Issues</th>
+            </tr>
+          </thead>
+          <tbody>
+            @for (remote of registry.remotes(); track remote.name) {
+              <tr>
+                <td>
+                  <strong>{{ remote.displayName }}</strong>
+                  <div class="detail">{{ remote.name }}</div>
+                </td>
+                <td>
+                  <span class="badge" [class]="remote.reachability">{{ remote.reachability }}</span>
+                  @if (remote.latency !== undefined) {
+                    <div class="detail">{{ remote.latency }} ms</div>
+                  }
+                </td>
+                <td>{{ loader.status(remote.name)().status }}</td>
+                <td>{{ remote.metadata?.version ?? '-' }}</td>
+                <td>
+                  {{ remote.metadata?.apiVersion ?? '-' }}
+                  @if (remote.compatible === false) {
+                    <span class="badge incompatible">incompatible</span>
+                  }
+                </td>
+                <td>{{ remote.checkedAt ? (remote.checkedAt | date: 'mediumTime') : '-' }}</td>
+                <td>
+                  @for (issue of remote.issues; track $index) {
+                    <div class="issue">{{ issue }}</div>
+                  }
+                </td>
+              </tr>
+            }
+          </tbody>
+        </table>
+      }
+    </div>
+  `,
+  styles: `
+    .remote-dashboard {
+      padding: 20px;
+    }
+
+    header {
+      display: flex;
+      align-items: center;
+      gap: 15px;
+      margin-bottom: 20px;
+    }
+
+    h2 {
+      color: #3f51b5;
+      margin: 0;
+    }
+
+    .contract {
+      color: #777;
+      flex: 1;
+    }
+
+    table {
+      width: 100%;
+      border-collapse: collapse;
+    }
+
+    th, td {
+      text-align: left;
+      padding: 8px;
+      border-bottom: 1px solid #eee;
+      vertical-align: top;
+    }
+
+    .detail {
+      font-size: 0.85em;
+      color: #777;
+    }
+
+    .badge {
+      display: inline-block;
+      padding: 2px 8px;
+      border-radius: 10px;
+      font-size: 0.85em;
+      background-color: #e0e0e0;
+    }
+
+    .badge.up {
+      background-color: #c8e6c9;
+    }
+
+    .badge.down, .badge.incompatible {
+      background-color: #ffcdd2;
+    }
+
+    .issue {
+      color: #c62828;
+      font-size: 0.9em;
+    }
+  `
+})
+export class RemoteDashboardComponent implements OnInit {
+  protected readonly registry = inject(RemoteRegistryService);
+  protected readonly loader = inject(RemoteLoaderService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  ngOnInit() {
+    this.registry.refresh();
+
+    // Keep probing while the dashboard is shown
+    const timer = setInterval(() => this.registry.refresh(), REFRESH_INTERVAL);
+    this.destroyRef.onDestroy(() => clearInterval(timer));
+  }
+}
@@ -0,0 +1,45 @@
+import { ChangeDetectionStrategy, Component, input, output } from '@angular/core';
+
+@Component({
+  selector: 'app-remote-error',
+  standalone: true,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  template: `
+    <div class="remote-error" role="alert">
+      <h4>{{ displayName() }} is unavailable</h4>
+      @if (error()) {
+        <p class="remote-error-reason">{{ error() }}</p>
+      }
+      @if (retryable()) {
+        <button type="button" (click)="retry.emit()">Retry</button>
+      }
+    </div>
+  `,
+  styles: `
+    .remote-error {
+      padding: 15px;
+      border: 1px solid #f44336;
+      border-radius: 4px;
+      background-color: #ffebee;
+    }
+
+    h4 {
+      margin: 0 0 10px;
+      color: #c62828;
+    }
+
+    .remote-error-reason {
+      font-family: monospace;
+      font-size: 0.9em;
+      color: #555;
+    }
+  `
+})
+export class RemoteErrorComponent {
+  readonly displayName = input.required<string>();
+  readonly error = input<string>();
+  readonly retryable = input(true);
+
+  // Emitted when the user asks to load the remote again
+  readonly retry = output<void>();
+}
@@ -0,0 +1,205 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  ComponentMirror,
+  ComponentRef,
+  computed,
+  effect,
+  EnvironmentInjector,
+  inject,
+  input,
+  OnDestroy,
+  OnInit,
+  output,
+  reflectComponentType,
+  signal,
+  Type,
+  untracked,
+  viewChild,
+  ViewContainerRef
+} from '@angular/core';
+import {
+  MicroFrontendMountBindings,
+  MicroFrontendMountName,
+  MicroFrontendOutputEvent,
+  MicroFrontendOutputSubscription
+} from '@angular-microfrontends-poc/shared-types';
+import { RemoteLoaderService } from '../services/remote-loader';
+import { RemoteDefinition } from '../services/remote-manifest';
+import { createRemoteInjector } from '../services/remote-scope';
+import { RemoteErrorComponent } from './remote-error.component';
+
+/**
+ * Mounts the component of a remote once it is loaded, showing its load status meanwhile
+ * and a fallback with a retry action when loading failed.
+ * Every mount gets its own environment injector, destroyed when the remote unmounts.
+ * Binds the inputs of the remote's mount contract and reports its outputs.
+ */
+@Component({
+  selector: 'app-remote-host',
+  standalone: true,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [RemoteErrorComponent],
+  template: `
+    @if (mountError(); as error) {
+      <app-remote-error [displayName]="remote().displayName" [error]="error" (retry)="mount()" />
+    } @else {
+      @switch (state().status) {
+        @case ('failed') {
+          <app-remote-error [displayName]="remote().displayName" [error]="state().error" (retry)="mount()" />
+        }
+        @case ('loaded') {}
+        @default {
+          <div class="remote-loading">
+            Loading {{ remote().displayName }}
+            @if (state().attempt > 1) {
+              (attempt {{ state().attempt }})
+            }
+            ...
+          </div>
+        }
+      }
+    }
+    <ng-container #outlet />
+  `,
+  styles: `
+    .remote-loading {
+      padding: 15px;
+      color: #777;
+      font-style: italic;
+    }
+  `
+})
+export class RemoteHostComponent implements OnInit, OnDestroy {
+  // Bound from the route data for routed remotes
+  readonly remote = input.required<RemoteDefinition>();
+
+  // Inputs of the remote's mount contract, set again whenever they change
+  readonly inputs = input<MicroFrontendMountBindings<MicroFrontendMountName>>({});
+
+  // Values emitted by the outputs of the remote's mount contract
+  readonly remoteOutput = output<MicroFrontendOutputEvent>();
+
+  private readonly outlet = viewChild.required('outlet', { read: ViewContainerRef });
+  private readonly loader = inject(RemoteLoaderService);
+  private readonly environmentInjector = inject(EnvironmentInjector);
+  private remoteInjector?: EnvironmentInjector;
+  private componentRef?: ComponentRef<unknown>;
+  private mirror?: ComponentMirror<unknown>;
+  private outputSubscriptions: MicroFrontendOutputSubscription[] = [];
+  private destroyed = false;
+
+  // Load status of the remote, shared with every other view mounting it
+  protected readonly state = computed(() => this.loader.status(this.remote().name)());
+
+  // Error thrown while mounting the remote here, so a failing slot never affects the others
+  protected readonly mountError = signal<string | undefined>(undefined);
+
+  constructor() {
+    // Re-bind the inputs of the mounted component whenever they change
+    effect(() => {
+      const inputs = this.inputs();
+      untracked(() => this.bindInputs(inputs));
+    });
+  }
+
+  ngOnInit() {
+    this.mount();
+  }
+
+  ngOnDestroy() {
+    this.destroyed = true;
+    this.unmount();
+  }
+
+  /**
+   * Loads the remote and mounts its component with its own injector, API handle and context
+   */
+  async mount() {
+    const remote = this.remote();
+
+    let component: Type<unknown>;
+    try {
+      component = await this.loader.load(remote);
+    } catch {
+      // The failure is reported through the load status
+      return;
+    }
+
+    if (this.destroyed) {
+      return;
+    }
+
+    this.unmount();
+    this.remoteInjector = createRemoteInjector(remote, this.environmentInjector);
+    this.mountError.set(undefined);
+
+    try {
+      this.componentRef = this.outlet().createComponent(component, { environmentInjector: this.remoteInjector });
+      this.mirror = reflectComponentType(component) ?? undefined;
+      this.bindInputs(this.inputs());
+      this.subscribeOutputs(remote.name);
+
+      // Detect changes to ensure the component renders properly
+      this.componentRef.changeDetectorRef.detectChanges();
+    } catch (error) {
+      this.unmount();
+      this.mountError.set(error instanceof Error ? error.message : String(error));
+      console.error(`Error mounting ${remote.displayName}:`, error);
+      return;
+    }
+
+    console.log(`${remote.displayName} loaded successfully`);
+  }
+
+  /**
+   * Sets the inputs the mounted component declares; unknown inputs are skipped with a warning
+   * @param inputs The inputs to set
+   */
+  private bindInputs(inputs: MicroFrontendMountBindings<MicroFrontendMountName>): void {
+    const componentRef = this.componentRef;
+    if (!componentRef) {
+      return;
+    }
+
+    const declared = new Set(this.mirror?.inputs.map(({ templateName }) => templateName));
+    Object.entries(inputs).forEach(([name, value]) => {
+      if (!declared.has(name)) {
+        console.warn(`${this.remote().displayName} has no input '${name}' in its mount contract`);
+        return;
+      }
+      componentRef.setInput(name, value);
+    });
+  }
+
+  /**
+   * Reports every value emitted by the outputs of the mounted component
+   * @param remote The name of the mounted remote
+   */
+  private subscribeOutputs(remote: string): void {
+    type Emitter = { subscribe?: (listener: (value: unknown) => void) => MicroFrontendOutputSubscription };
+    const instance = this.componentRef?.instance as Record<string, Emitter | undefined>;
+
+    this.mirror?.outputs.forEach(({ propName, templateName }) => {
+      const emitter = instance[propName];
+      if (typeof emitter?.subscribe !== 'function') {
+        return;
+      }
+
+      const subscription: MicroFrontendOutputSubscription = emitter.subscribe((value: unknown) =>
+        this.remoteOutput.emit({ remote, output: templateName, value } as MicroFrontendOutputEvent)
+      );
+      this.outputSubscriptions.push(subscription);
+    });
+  }
+
+  private unmount(): void {
+    this.outputSubscriptions.forEach(subscription => subscription.unsubscribe());
+    this.outputSubscriptions = [];
+    this.componentRef = undefined;
+    this.mirror = undefined;
+    this.outlet().clear();
+    this.remoteInjector?.destroy();
+    this.remoteInjector = undefined;
+  }
+}
@@ -0,0 +1,6 @@
+import { Type } from '@angular/core';
+
+/**
+ * Production builds have no devtools overlay, see `devtools.ts`
+ */
+export const DEVTOOLS_COMPONENT: Type<unknown> | null = null;
@@ -0,0 +1,8 @@
+import { Type } from '@angular/core';
+import { DevtoolsPanelComponent } from './components/devtools-panel.component';
+
+/**
+ * Devtools overlay rendered by the app component.
+ * Production builds replace this file with `devtools.prod.ts`, so the overlay is not part of them.
+ */
+export const DEVTOOLS_COMPONENT: Type<unknown> | null = DevtoolsPanelComponent;
@@ -0,0 +1,201 @@
+import { InjectionToken, Provider, signal } from '@angular/core';
+import { MicroFrontendMessage, MicroFrontendMessageType } from '@angular-microfrontends-poc/shared-types';
+
+/**
+ * Configuration of message synchronization between tabs of the same origin
+ */
+export interface CrossTabSyncConfig {
+  channelName?: string;                      // BroadcastChannel name, shared by all tabs
+  types: MicroFrontendMessageType[];         // Message types mirrored to every tab
+  leaderTypes?: MicroFrontendMessageType[];  // Message types handled only by the leader tab
+}
+
+/**
+ * Cross-tab synchronization of the shell's communication service, null when it is off
+ */
+export const CROSS_TAB_SYNC = new InjectionToken<CrossTabSyncConfig | null>('CROSS_TAB_SYNC', {
+  providedIn: 'root',
+  factory: () => null,
+});
+
+/**
+ * Enables mirroring of selected message types to other tabs
+ * @param config The types to mirror and the types handled once by the leader tab
+ * @returns The provider to add to the application config
+ */
+export function provideCrossTabSync(config: CrossTabSyncConfig): Provider {
+  return { provide: CROSS_TAB_SYNC, useValue: config };
+}
+
+// Number of received message ids remembered to drop duplicates
+const SEEN_MESSAGES_LIMIT = 1000;
+
+/**
+ * Mirrors messages between tabs over a BroadcastChannel.
+ * Only the tab a message originates from posts it, so mirrored messages never loop.
+ * Messages handled by the leader wait until this tab knows whether it is the leader.
+ */
+export class CrossTabTransport {
+  // Whether this tab currently holds the leadership lock
+  readonly isLeader = signal(false);
+
+  private readonly channelName: string;
+  private readonly channel: BroadcastChannel;
+  private readonly seen = new Set<string>();
+  private releaseLeadership?: () => void;
+
+  // Whether the election has told this tab if it leads, and the leader messages waiting for it
+  private leadershipKnown = false;
+  private pendingOutgoing: MicroFrontendMessage<unknown>[] = [];
+  private pendingIncoming: MicroFrontendMessage<unknown>[] = [];
+
+  constructor(
+    private readonly config: CrossTabSyncConfig,
+    private readonly tabId: string,
+    private readonly onMessage: (message: MicroFrontendMessage<unknown>) => void
+  ) {
+    this.channelName = config.channelName ?? 'mf-communication';
+    this.channel = new BroadcastChannel(this.channelName);
+
+    this.channel.onmessage = (event: MessageEvent<MicroFrontendMessage<unknown>>) => {
+      const message = event.data;
+      if (!message?.id || this.seen.has(message.id)) {
+        return;
+      }
+      this.remember(message.id);
+
+      // Messages meant to be handled once only reach the leader tab
+      if (this.isLeaderType(message.type) && !this.leadershipKnown) {
+        this.pendingIncoming.push(message);
+        return;
+      }
+      if (this.isLeaderType(message.type) && !this.isLeader()) {
+        return;
+      }
+
+      onMessage(message);
+    };
+
+    this.electLeader();
+  }
+
+  /**
+   * Mirrors a message sent in this tab to the other tabs when its type is synchronized
+   * @param message The message, stamped with its id and origin tab
+   * @returns Whether this tab should deliver the message itself, false when another tab handles it
+   * or when it waits for the election; waiting messages are delivered through the message callback
+   */
+  outgoing(message: MicroFrontendMessage<unknown>): boolean {
+    if (message.originTabId !== this.tabId) {
+      return true;
+    }
+
+    if (this.isLeaderType(message.type)) {
+      if (!this.leadershipKnown) {
+        this.pendingOutgoing.push(message);
+        return false;
+      }
+
+      // The leader handles the message itself, any other tab hands it over
+      if (this.isLeader()) {
+        return true;
+      }
+      this.post(message);
+      return false;
+    }
+
+    if (this.config.types.includes(message.type as MicroFrontendMessageType)) {
+      this.post(message);
+    }
+    return true;
+  }
+
+  /**
+   * Closes the channel and gives up leadership
+   */
+  close(): void {
+    this.releaseLeadership?.();
+    this.isLeader.set(false);
+    this.pendingOutgoing = [];
+    this.pendingIncoming = [];
+    this.channel.close();
+  }
+
+  private post(message: MicroFrontendMessage<unknown>): void {
+    try {
+      this.channel.postMessage(message);
+    } catch (error) {
+      console.warn(`Message ${message.id} could not be mirrored to other tabs:`, error);
+    }
+  }
+
+  private isLeaderType(type: string): boolean {
+    return this.config.leaderTypes?.includes(type as MicroFrontendMessageType) ?? false;
+  }
+
+  private remember(id: string): void {
+    this.seen.add(id);
+    if (this.seen.size > SEEN_MESSAGES_LIMIT) {
+      // Sets iterate in insertion order, so this drops the oldest id
+      this.seen.delete(this.seen.values().next().value as string);
+    }
+  }
+
+  /**
+   * Takes the leadership lock if it is free, otherwise follows the leader and waits for the lock.
+   * The lock is released when the tab closes.
+   */
+  private electLeader(): void {
+    if (!('locks' in navigator)) {
+      // Without the Web Locks API every tab acts as its own leader
+      this.settleLeadership(true);
+      return;
+    }
+
+    const name = `${this.channelName}:leader`;
+    const lead = () => {
+      this.settleLeadership(true);
+      return new Promise<void>((resolve) => (this.releaseLeadership = resolve));
+    };
+
+    navigator.locks
+      .request(name, { ifAvailable: true }, (lock) => {
+        if (lock) {
+          return lead();
+        }
+
+        this.settleLeadership(false);
+        navigator.locks.request(name, lead).catch((error) => console.error('Cross-tab leader election failed:', error));
+        return undefined;
+      })
+      .catch((error) => {
+        // Without an election every tab acts as its own leader, so leader messages are not lost
+        console.error('Cross-tab leader election failed:', error);
+        this.settleLeadership(true);
+      });
+  }
+
+  /**
+   * Records the outcome of the election and passes on the leader messages that waited for it
+   * @param leader Whether this tab leads
+   */
+  private settleLeadership(leader: boolean): void {
+    this.isLeader.set(leader);
+    if (this.leadershipKnown) {
+      return;
+    }
+    this.leadershipKnown = true;
+
+    const outgoing = this.pendingOutgoing;
+    const incoming = this.pendingIncoming;
+    this.pendingOutgoing = [];
+    this.pendingIncoming = [];
+
+    // The leader delivers both, a follower hands its own messages over and leaves the others to the leader
+    if (leader) {
+      [...outgoing, ...incoming].forEach((message) => this.onMessage(message));
+    } else {
+      outgoing.forEach((message) => this.post(message));
+    }
+  }
+}
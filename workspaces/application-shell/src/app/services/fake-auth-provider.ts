@@ -0,0 +1,75 @@
+import { MicroFrontendSession, MicroFrontendUser } from '@angular-microfrontends-poc/shared-types';
+import { AuthProvider } from './session';
+
+/**
+ * User known to the fake auth provider, with the roles it is granted
+ */
+export interface FakeUser extends MicroFrontendUser {
+  roles: string[];
+}
+
+/**
+ * Options of the fake auth provider
+ */
+export interface FakeAuthProviderOptions {
+  users?: FakeUser[];       // Users who may sign in, the development users when omitted
+  sessionDuration?: number; // Milliseconds until a session expires, 15 minutes when omitted
+  key?: string;             // sessionStorage key the session is kept in
+}
+
+/**
+ * Users of the fake auth provider: one may open Feature Two, which requires the 'feature-two' role, the other may not
+ */
+export const DEVELOPMENT_USERS: FakeUser[] = [
+  { id: 'ada', name: 'Ada Lovelace', roles: ['feature-two'] },
+  { id: 'grace', name: 'Grace Hopper', roles: [] },
+];
+
+/**
+ * Signs in users from a fixed list without any password, for development.
+ * The session is kept in sessionStorage, so it survives reloads of the current tab.
+ */
+export class FakeAuthProvider implements AuthProvider {
+  private readonly users: FakeUser[];
+  private readonly sessionDuration: number;
+  private readonly key: string;
+
+  constructor(options: FakeAuthProviderOptions = {}) {
+    this.users = options.users ?? DEVELOPMENT_USERS;
+    this.sessionDuration = options.sessionDuration ?? 15 * 60 * 1000;
+    this.key = options.key ?? 'mf-auth:session';
+  }
+
+  async restoreSession(): Promise<MicroFrontendSession | null> {
+    const stored = sessionStorage.getItem(this.key);
+    if (!stored) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(stored) as MicroFrontendSession;
+    } catch (error) {
+      console.warn(`Ignoring unreadable session in sessionStorage '${this.key}':`, error);
+      return null;
+    }
+  }
+
+  async signIn(loginHint?: string): Promise<MicroFrontendSession> {
+    const user = loginHint ? this.users.find(({ id }) => id === loginHint) : this.users[0];
+    if (!user) {
+      throw new Error(`Unknown user '${loginHint}', expected one of ${this.users.map(({ id }) => id).join(', ')}`);
+    }
+
+    const session: MicroFrontendSession = {
+      user: { id: user.id, name: user.name },
+      roles: [...user.roles],
+      expiresAt: Date.now() + this.sessionDuration,
+    };
+    sessionStorage.setItem(this.key, JSON.stringify(session));
+    return session;
+  }
+
+  async signOut(): Promise<void> {
+    sessionStorage.removeItem(this.key);
+  }
+}
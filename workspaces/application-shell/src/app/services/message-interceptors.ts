@@ -0,0 +1,137 @@
+import { EnvironmentProviders, InjectionToken, makeEnvironmentProviders } from '@angular/core';
+import { matchesTopicPattern, MicroFrontendMessage } from '@angular-microfrontends-poc/shared-types';
+
+// Point of the pipeline a message is intercepted at
+export type MessageInterceptorPhase =
+  | 'send'     // Sent by a micro frontend, before it is validated and stored
+  | 'deliver'; // Accepted, before it is stored and the subscriptions of its recipients are notified
+
+/**
+ * Where an interceptor is called
+ */
+export interface MessageInterceptorContext {
+  phase: MessageInterceptorPhase;
+}
+
+// Message to pass on, null to drop it, or a promise of either to delay it
+export type MessageInterceptorResult =
+  | MicroFrontendMessage<unknown>
+  | null
+  | Promise<MicroFrontendMessage<unknown> | null>;
+
+/**
+ * Inspects, transforms, delays or drops a message. Interceptors run in the shell's injection
+ * context, in the order they were provided, each receiving the message returned by the previous one.
+ */
+export type MessageInterceptorFn = (
+  message: MicroFrontendMessage<unknown>,
+  context: MessageInterceptorContext
+) => MessageInterceptorResult;
+
+/**
+ * Interceptors provided through `provideMessageInterceptors`, in order
+ */
+export const MESSAGE_INTERCEPTORS = new InjectionToken<MessageInterceptorFn[]>('MESSAGE_INTERCEPTORS', {
+  providedIn: 'root',
+  factory: () => [],
+});
+
+/**
+ * Adds interceptors to the communication service's pipeline
+ * @param interceptors The interceptors, run in this order after any provided before
+ * @returns The providers to add to the application config
+ */
+export function provideMessageInterceptors(interceptors: MessageInterceptorFn[]): EnvironmentProviders {
+  return makeEnvironmentProviders(
+    interceptors.map(interceptor => ({ provide: MESSAGE_INTERCEPTORS, multi: true, useValue: interceptor }))
+  );
+}
+
+/**
+ * Passes a message through the interceptors, synchronously as long as none of them delays it
+ * @param interceptors The interceptors, in order
+ * @param message The message to intercept
+ * @param context Where the interceptors are called
+ * @returns The message to pass on, null when dropped, or a promise of either when delayed
+ */
+export function runMessageInterceptors(
+  interceptors: MessageInterceptorFn[],
+  message: MicroFrontendMessage<unknown>,
+  context: MessageInterceptorContext
+): MessageInterceptorResult {
+  let result: MessageInterceptorResult = message;
+
+  for (const [index, interceptor] of interceptors.entries()) {
+    if (result === null) {
+      return null;
+    }
+    if (result instanceof Promise) {
+      // Continue with the remaining interceptors once the delayed message is passed on
+      const remaining = interceptors.slice(index);
+      return result.then(delayed => (delayed ? runMessageInterceptors(remaining, delayed, context) : null));
+    }
+    result = interceptor(result, context);
+  }
+
+  return result;
+}
+
+/**
+ * Options of the logging interceptor
+ */
+export interface LoggingInterceptorOptions {
+  phases?: MessageInterceptorPhase[]; // Phases to log, every phase when omitted
+  types?: string[];                   // Topic patterns of the types to log, every type when omitted
+}
+
+/**
+ * Creates an interceptor logging the messages passing through the pipeline
+ * @param options The phases and types to log
+ * @returns The interceptor
+ */
+export function loggingInterceptor(options: LoggingInterceptorOptions = {}): MessageInterceptorFn {
+  return (message, { phase }) => {
+    const logged =
+      (!options.phases || options.phases.includes(phase)) &&
+      (!options.types || options.types.some(pattern => matchesTopicPattern(pattern, message.type)));
+
+    if (logged) {
+      console.log(`[${phase}] ${message.type} from ${message.from} to ${message.to}:`, message.payload);
+    }
+    return message;
+  };
+}
+
+/**
+ * Options of the redaction interceptor
+ */
+export interface RedactionInterceptorOptions {
+  fields: string[];                 // Payload fields to redact, at any depth
+  replacement?: string;             // Value replacing redacted fields, '[REDACTED]' when omitted
+  phase?: MessageInterceptorPhase;  // Phase to redact in, 'send' when omitted so redacted values are never stored
+}
+
+/**
+ * Creates an interceptor replacing sensitive payload fields, such as passwords or tokens
+ * @param options The fields to redact
+ * @returns The interceptor
+ */
+export function redactionInterceptor(options: RedactionInterceptorOptions): MessageInterceptorFn {
+  const fields = new Set(options.fields);
+  const replacement = options.replacement ?? '[REDACTED]';
+  const phase = options.phase ?? 'send';
+
+  const redact = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(redact);
+    }
+    if (value !== null && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, field]) => [key, fields.has(key) ? replacement : redact(field)])
+      );
+    }
+    return value;
+  };
+
+  return (message, context) => (context.phase === phase ? { ...message, payload: redact(message.payload) } : message);
+}
@@ -0,0 +1,169 @@
+import { InjectionToken } from '@angular/core';
+import { MicroFrontendMessage, MicroFrontendMessageType } from '@angular-microfrontends-poc/shared-types';
+
+// Persisted message, flagged when it was still held for its recipient
+export type PersistedMessage = MicroFrontendMessage<unknown> & { held?: boolean };
+
+/**
+ * Storage backend for persisted messages.
+ * Adapters store a full snapshot, so `save` replaces whatever was saved before.
+ */
+export interface MessagePersistenceAdapter {
+  load(): Promise<PersistedMessage[]>;
+  save(messages: PersistedMessage[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// Which messages of a type survive a reload
+export type MessagePersistenceRule =
+  | 'none'    // Never persisted
+  | 'latest'  // Only the latest message for each sender and recipient
+  | 'all';    // Every retained message
+
+/**
+ * Configuration of message persistence in the shell
+ */
+export interface MessagePersistenceConfig {
+  adapter: MessagePersistenceAdapter;
+  rules: Partial<Record<MicroFrontendMessageType, MessagePersistenceRule>>;
+  defaultRule?: MessagePersistenceRule; // Rule for types without one, 'none' when omitted
+}
+
+/**
+ * Persistence configuration of the shell's communication service, null when persistence is off
+ */
+export const MESSAGE_PERSISTENCE = new InjectionToken<MessagePersistenceConfig | null>('MESSAGE_PERSISTENCE', {
+  providedIn: 'root',
+  factory: () => null,
+});
+
+/**
+ * Selects the messages to persist according to the configured rules
+ * @param messages The retained messages, oldest first
+ * @param config The persistence configuration
+ * @returns The messages to save, oldest first
+ */
+export function selectPersistedMessages(
+  messages: MicroFrontendMessage<unknown>[],
+  config: MessagePersistenceConfig
+): MicroFrontendMessage<unknown>[] {
+  const ruleFor = (type: string) =>
+    config.rules[type as MicroFrontendMessageType] ?? config.defaultRule ?? 'none';
+
+  // Remember the latest message of each sender, recipient and type
+  const latest = new Map<string, MicroFrontendMessage<unknown>>();
+  messages.forEach(message => latest.set(`${message.from}:${message.to}:${message.type}`, message));
+
+  return messages.filter(message => {
+    const rule = ruleFor(message.type);
+    return rule === 'all' || (rule === 'latest' && latest.get(`${message.from}:${message.to}:${message.type}`) === message);
+  });
+}
+
+/**
+ * Keeps persisted messages in memory; useful for tests
+ */
+export class InMemoryMessagePersistenceAdapter implements MessagePersistenceAdapter {
+  private messages: PersistedMessage[] = [];
+
+  async load(): Promise<PersistedMessage[]> {
+    return structuredClone(this.messages);
+  }
+
+  async save(messages: PersistedMessage[]): Promise<void> {
+    this.messages = structuredClone(messages);
+  }
+
+  async clear(): Promise<void> {
+    this.messages = [];
+  }
+}
+
+/**
+ * Persists messages in sessionStorage, so they survive reloads of the current tab
+ */
+export class SessionStorageMessagePersistenceAdapter implements MessagePersistenceAdapter {
+  constructor(private readonly key = 'mf-communication:messages') {}
+
+  async load(): Promise<PersistedMessage[]> {
+    const stored = sessionStorage.getItem(this.key);
+    if (!stored) {
+      return [];
+    }
+
+    try {
+      return JSON.parse(stored) as PersistedMessage[];
+    } catch (error) {
+      console.warn(`Ignoring unreadable persisted messages in sessionStorage '${this.key}':`, error);
+      return [];
+    }
+  }
+
+  async save(messages: PersistedMessage[]): Promise<void> {
+    sessionStorage.setItem(this.key, JSON.stringify(messages));
+  }
+
+  async clear(): Promise<void> {
+    sessionStorage.removeItem(this.key);
+  }
+}
+
+/**
+ * Persists messages in IndexedDB, so they survive reloads and larger payloads fit
+ */
+export class IndexedDbMessagePersistenceAdapter implements MessagePersistenceAdapter {
+  private database?: Promise<IDBDatabase>;
+
+  constructor(
+    private readonly databaseName = 'mf-communication',
+    private readonly storeName = 'messages'
+  ) {}
+
+  async load(): Promise<PersistedMessage[]> {
+    const store = await this.objectStore('readonly');
+    return this.request(store.getAll() as IDBRequest<PersistedMessage[]>);
+  }
+
+  async save(messages: PersistedMessage[]): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    store.clear();
+    messages.forEach(message => store.add(message));
+    await this.complete(store.transaction);
+  }
+
+  async clear(): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    store.clear();
+    await this.complete(store.transaction);
+  }
+
+  private async objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const database = await this.open();
+    return database.transaction(this.storeName, mode).objectStore(this.storeName);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.database ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.databaseName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(this.storeName, { autoIncrement: true });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return this.database;
+  }
+
+  private request<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private complete(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
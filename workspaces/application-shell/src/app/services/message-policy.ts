@@ -0,0 +1,67 @@
+import { InjectionToken, Provider } from '@angular/core';
+import { matchesTopicPattern, MICRO_FRONTEND_BROADCAST, MicroFrontendMessage } from '@angular-microfrontends-poc/shared-types';
+
+/**
+ * Allows some senders to send some message or request types to some targets
+ */
+export interface MessagePolicyRule {
+  from: string | string[];  // Senders the rule applies to, '*' for every sender
+  to: string | string[];    // Allowed targets, '*' for every target including broadcasts
+  types: string | string[]; // Allowed types, topic patterns such as 'cart.*' or '**' accepted
+}
+
+/**
+ * Declarative allow-list of the messages the shell delivers.
+ * A message or request is delivered only when at least one rule allows it.
+ */
+export interface MessagePolicy {
+  rules: MessagePolicyRule[];
+}
+
+/**
+ * Message policy of the shell's communication service, null when every message is allowed
+ */
+export const MESSAGE_POLICY = new InjectionToken<MessagePolicy | null>('MESSAGE_POLICY', {
+  providedIn: 'root',
+  factory: () => null,
+});
+
+/**
+ * Restricts which senders may send which types to which targets
+ * @param policy The rules allowing messages and requests
+ * @returns The provider to add to the application config
+ */
+export function provideMessagePolicy(policy: MessagePolicy): Provider {
+  return { provide: MESSAGE_POLICY, useValue: policy };
+}
+
+/**
+ * Checks a message or request against the policy
+ * @param policy The message policy
+ * @param message The message, with the sender set by the shell
+ * @returns The violation when no rule allows the message, undefined otherwise
+ */
+export function findPolicyViolation(policy: MessagePolicy, message: MicroFrontendMessage<unknown>): string | undefined {
+  const { from, to, type } = message;
+
+  const allowed = policy.rules.some(rule =>
+    matchesName(rule.from, from) &&
+    matchesName(rule.to, to) &&
+    toArray(rule.types).some(pattern => matchesTopicPattern(pattern, type))
+  );
+
+  if (allowed) {
+    return undefined;
+  }
+
+  const target = to === MICRO_FRONTEND_BROADCAST ? 'everyone' : to;
+  return `${from} is not allowed to send '${type}' to ${target}`;
+}
+
+function matchesName(names: string | string[], name: string): boolean {
+  return toArray(names).some(candidate => candidate === '*' || candidate === name);
+}
+
+function toArray(value: string | string[]): string[] {
+  return Array.isArray(value) ? value : [value];
+}
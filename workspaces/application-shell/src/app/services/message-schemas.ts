@@ -0,0 +1,19 @@
+import { MicroFrontendMessageSchemas } from '@angular-microfrontends-poc/shared-types';
+
+/**
+ * Runtime schemas for the message types the shell knows about.
+ * Messages of these types are validated before they are stored or dispatched.
+ */
+export const MESSAGE_SCHEMAS: MicroFrontendMessageSchemas = {
+  default: (payload) => (typeof payload === 'string' ? [] : ['payload must be a string']),
+  'session.expired': (payload) => {
+    const event = payload as Record<string, unknown> | null;
+    if (typeof event !== 'object' || event === null) {
+      return ['payload must be an object'];
+    }
+    return [
+      ...(typeof event['userId'] === 'string' ? [] : ['userId must be a string']),
+      ...(typeof event['expiredAt'] === 'number' ? [] : ['expiredAt must be a number']),
+    ];
+  },
+};
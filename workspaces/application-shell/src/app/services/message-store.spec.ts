@@ -0,0 +1,25 @@
+import { MicroFrontendMessage } from '@angular-microfrontends-poc/shared-types';
+import { MessageStore } from './message-store';
+
+function message(type: string, payload: string): MicroFrontendMessage<unknown> {
+  return { from: 'application-shell', to: 'feature-one-app', type, payload, timestamp: Date.now() };
+}
+
+describe('MessageStore', () => {
+  it('should evict older messages before the latest message of each type', () => {
+    const store = new MessageStore({ maxCount: 2, keepLatestPerType: true });
+    store.add(message('a', 'first a'));
+    store.add(message('b', 'first b'));
+    store.add(message('b', 'second b'));
+
+    expect(store.all().map(({ payload }) => payload)).toEqual(['first a', 'second b']);
+  });
+
+  it('should not exceed the maximum count when there are more types than it allows', () => {
+    const store = new MessageStore({ maxCount: 3, keepLatestPerType: true });
+    ['a', 'b', 'c', 'd', 'e'].forEach(type => store.add(message(type, type)));
+
+    expect(store.size).toBe(3);
+    expect(store.all().map(({ type }) => type)).toEqual(['c', 'd', 'e']);
+  });
+});
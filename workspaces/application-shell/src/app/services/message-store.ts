@@ -0,0 +1,201 @@
+import { InjectionToken, Provider } from '@angular/core';
+import {
+  applyMessageQuery,
+  MICRO_FRONTEND_BROADCAST,
+  MicroFrontendMessage,
+  MicroFrontendMessageQuery,
+  MicroFrontendMessageType,
+} from '@angular-microfrontends-poc/shared-types';
+
+/**
+ * Limits applied to the messages kept by the shell
+ */
+export interface MessageRetentionPolicy {
+  maxCount?: number;           // Maximum number of messages kept
+  maxAge?: number;             // Milliseconds a message is kept after it was sent
+  keepLatestPerType?: boolean; // Evict the latest message of each type for each recipient last, and never for its age
+}
+
+export const DEFAULT_MESSAGE_RETENTION: MessageRetentionPolicy = {
+  maxCount: 1000,
+  keepLatestPerType: true,
+};
+
+/**
+ * Retention policy used by the shell's message store
+ */
+export const MESSAGE_RETENTION = new InjectionToken<MessageRetentionPolicy>('MESSAGE_RETENTION', {
+  providedIn: 'root',
+  factory: () => DEFAULT_MESSAGE_RETENTION,
+});
+
+/**
+ * Overrides the retention policy of the shell's message store
+ * @param policy The retention policy
+ * @returns The provider to add to the application config
+ */
+export function provideMessageRetention(policy: MessageRetentionPolicy): Provider {
+  return { provide: MESSAGE_RETENTION, useValue: policy };
+}
+
+// A stored message with its insertion order
+interface StoredMessage {
+  sequence: number;
+  message: MicroFrontendMessage<unknown>;
+}
+
+/**
+ * Bounded message store indexed by recipient and by recipient and type
+ */
+export class MessageStore {
+  private readonly entries: StoredMessage[] = [];
+  private readonly byRecipient = new Map<string, StoredMessage[]>();
+  private readonly byRecipientAndType = new Map<string, StoredMessage[]>();
+  private sequence = 0;
+
+  constructor(private readonly policy: MessageRetentionPolicy = DEFAULT_MESSAGE_RETENTION) {}
+
+  /**
+   * Number of messages currently retained
+   */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Adds a message and evicts the messages the retention policy no longer allows
+   * @param message The message to add
+   */
+  add(message: MicroFrontendMessage<unknown>): void {
+    const entry: StoredMessage = { sequence: this.sequence++, message };
+
+    this.entries.push(entry);
+    this.indexFor(this.byRecipient, message.to).push(entry);
+    this.indexFor(this.byRecipientAndType, `${message.to}:${message.type}`).push(entry);
+
+    this.evict();
+  }
+
+  /**
+   * Finds the messages delivered to a recipient, including broadcasts from other senders
+   * @param recipient The name of the recipient
+   * @param query Filters and paging
+   * @returns The matching messages
+   */
+  query(recipient: string, query: MicroFrontendMessageQuery = {}): MicroFrontendMessage<unknown>[] {
+    this.evict();
+
+    // Start from the narrowest index and merge in the broadcasts
+    const { type } = query;
+    const candidates = type
+      ? this.merge(
+          this.byRecipientAndType.get(`${recipient}:${type}`),
+          this.byRecipientAndType.get(`${MICRO_FRONTEND_BROADCAST}:${type}`)
+        )
+      : this.merge(this.byRecipient.get(recipient), this.byRecipient.get(MICRO_FRONTEND_BROADCAST));
+
+    return applyMessageQuery(candidates.map(entry => entry.message), recipient, query);
+  }
+
+  /**
+   * Gets the latest message of a type delivered to a recipient
+   * @param recipient The name of the recipient
+   * @param type The message type
+   * @returns The latest message, if any
+   */
+  latest(recipient: string, type: MicroFrontendMessageType): MicroFrontendMessage<unknown> | undefined {
+    return this.query(recipient, { type, order: 'desc', limit: 1 })[0];
+  }
+
+  /**
+   * Gets every retained message, oldest first
+   */
+  all(): MicroFrontendMessage<unknown>[] {
+    this.evict();
+    return this.entries.map(entry => entry.message);
+  }
+
+  /**
+   * Removes the oldest messages exceeding the maximum count or age, sparing the latest of each type when possible
+   */
+  private evict(): void {
+    const { maxCount, maxAge, keepLatestPerType } = this.policy;
+    const oldestAllowed = maxAge === undefined ? undefined : Date.now() - maxAge;
+
+    // Entries are in insertion order, so scan from the oldest one
+    for (let index = 0; index < this.entries.length; ) {
+      const entry = this.entries[index];
+      const tooMany = maxCount !== undefined && this.entries.length > maxCount;
+      const tooOld = oldestAllowed !== undefined && entry.message.timestamp < oldestAllowed;
+
+      if (!tooMany && !tooOld) {
+        break;
+      }
+
+      if (keepLatestPerType && this.isLatestOfType(entry)) {
+        index++;
+        continue;
+      }
+
+      this.remove(index);
+    }
+
+    // The latest messages of each type count against the maximum too: with more types than it allows, the oldest go
+    while (maxCount !== undefined && this.entries.length > maxCount) {
+      this.remove(0);
+    }
+  }
+
+  private isLatestOfType(entry: StoredMessage): boolean {
+    const entries = this.byRecipientAndType.get(`${entry.message.to}:${entry.message.type}`);
+    return entries?.[entries.length - 1] === entry;
+  }
+
+  private remove(index: number): void {
+    const [entry] = this.entries.splice(index, 1);
+    const { to, type } = entry.message;
+
+    this.removeFromIndex(this.byRecipient, to, entry);
+    this.removeFromIndex(this.byRecipientAndType, `${to}:${type}`, entry);
+  }
+
+  private indexFor(index: Map<string, StoredMessage[]>, key: string): StoredMessage[] {
+    let entries = index.get(key);
+    if (!entries) {
+      entries = [];
+      index.set(key, entries);
+    }
+    return entries;
+  }
+
+  private removeFromIndex(index: Map<string, StoredMessage[]>, key: string, entry: StoredMessage): void {
+    const entries = index.get(key);
+    if (!entries) {
+      return;
+    }
+
+    entries.splice(entries.indexOf(entry), 1);
+    if (entries.length === 0) {
+      index.delete(key);
+    }
+  }
+
+  /**
+   * Merges two lists sorted by sequence into one sorted list
+   */
+  private merge(first: StoredMessage[] = [], second: StoredMessage[] = []): StoredMessage[] {
+    const merged: StoredMessage[] = [];
+    let i = 0;
+    let j = 0;
+
+    while (i < first.length || j < second.length) {
+      if (j >= second.length || (i < first.length && first[i].sequence < second[j].sequence)) {
+        merged.push(first[i++]);
+      } else {
+        merged.push(second[j++]);
+      }
+    }
+
+    return merged;
+  }
+}
@@ -0,0 +1,90 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { MicroFrontendMessage } from '@angular-microfrontends-poc/shared-types';
+import { MicroFrontendContract, verifyConsumer, verifyProvider } from '@angular-microfrontends-poc/shared-types/testing';
+import shellContract from '../../../mf.contract.json';
+import { InMemoryMessagePersistenceAdapter, MESSAGE_PERSISTENCE } from './message-persistence';
+import { MicroFrontendsCommunicationService } from './mf-communication.service';
+
+const contract = shellContract as MicroFrontendContract;
+
+describe('MicroFrontendsCommunicationService', () => {
+  let service: MicroFrontendsCommunicationService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideZonelessChangeDetection()]
+    });
+    service = TestBed.inject(MicroFrontendsCommunicationService);
+    service.init();
+  });
+
+  it('should receive the messages and answer the requests of the shell contract', async () => {
+    expect(await verifyConsumer(contract, service)).toEqual([]);
+  });
+
+  it('should send only the messages declared in the shell contract', () => {
+    service.sendMessageToMicroFrontend('feature-one-app', 'default', 'Hello from Shell to Feature One!', {
+      delivery: 'replay-last-per-type'
+    });
+    service.sendMessageToMicroFrontend('feature-two-app', 'default', 'Hello from Shell to Feature Two!', {
+      delivery: 'replay-last-per-type'
+    });
+    service.publishMessage('session.expired', { userId: 'ada', expiredAt: Date.now() });
+
+    expect(verifyProvider(contract, service.getAllMessages())).toEqual([]);
+  });
+
+  it('should report an example its recipient does not receive', async () => {
+    const unsubscribed: MicroFrontendContract = {
+      name: 'feature-one-app',
+      expects: [{ from: 'application-shell', type: 'default', example: '' }]
+    };
+
+    expect(await verifyConsumer(unsubscribed, service)).toEqual([
+      `feature-one-app expecting 'default' from application-shell does not subscribe to it`
+    ]);
+  });
+
+  it('should publish a broadcast again and refuse to send a request again', () => {
+    const published = { from: 'application-shell', to: '*', type: 'session.expired', payload: { userId: 'ada', expiredAt: 0 } };
+    expect(service.resendMessage(published).accepted).toBe(true);
+    expect(service.getAllMessages().at(-1)?.to).toBe('*');
+
+    const request = { from: 'feature-one-app', to: 'application-shell', type: 'ping', payload: {}, kind: 'request' as const };
+    const result = service.resendMessage(request);
+    expect(result.accepted).toBe(false);
+  });
+});
+
+describe('MicroFrontendsCommunicationService with persistence', () => {
+  it('should hold the restored messages that were still held before the reload', async () => {
+    const adapter = new InMemoryMessagePersistenceAdapter();
+    const pending: MicroFrontendMessage<unknown> = {
+      from: 'application-shell',
+      to: 'feature-one-app',
+      type: 'default',
+      payload: 'Sent before the reload',
+      timestamp: Date.now(),
+      delivery: 'replay-last-per-type',
+      id: 'pending'
+    };
+    await adapter.save([{ ...pending, held: true }, { ...pending, id: 'delivered', delivery: undefined }]);
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideZonelessChangeDetection(),
+        { provide: MESSAGE_PERSISTENCE, useValue: { adapter, rules: { default: 'all' } } }
+      ]
+    });
+    const service = TestBed.inject(MicroFrontendsCommunicationService);
+    await service.restorePersistedMessages();
+
+    expect(service.heldMessages().map(({ id }) => id)).toEqual(['pending']);
+
+    const received: string[] = [];
+    service.issueApi('feature-one-app').subscribe('default', (message) => received.push(message.id ?? ''));
+    expect(received).toEqual(['pending']);
+    expect(service.heldMessages()).toEqual([]);
+  });
+});
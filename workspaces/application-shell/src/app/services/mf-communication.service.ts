@@ -1,6 +1,60 @@
-import Microfrontends from '../../assets/mf.manifest.json';
-import { Injectable, signal } from '@angular/core';
-import { CentralizedApi, ChangedDataEvent, MicroFrontendApi, MicroFrontendMessage } from '@angular-microfrontends-poc/shared-types';
+import {
+  DestroyRef,
+  EnvironmentInjector,
+  EnvironmentProviders,
+  inject,
+  Injectable,
+  makeEnvironmentProviders,
+  provideAppInitializer,
+  Provider,
+  runInInjectionContext,
+  signal
+} from '@angular/core';
+import {
+  createMicroFrontendRequestError,
+  MICRO_FRONTEND_BROADCAST,
+  MicroFrontendApi,
+  MicroFrontendDelivery,
+  MicroFrontendDeliveryMode,
+  MicroFrontendDeliveryObserver,
+  MicroFrontendDestroyRef,
+  MicroFrontendMessage,
+  MicroFrontendMessageListener,
+  MicroFrontendMessagePayload,
+  MicroFrontendMessageQuery,
+  MicroFrontendMessageRejection,
+  MicroFrontendMessageType,
+  MicroFrontendPayloadValidator,
+  MicroFrontendRequestHandler,
+  MicroFrontendRequestOptions,
+  MicroFrontendRequestPayload,
+  MicroFrontendRequestType,
+  MicroFrontendResponsePayload,
+  MicroFrontendSendOptions,
+  MicroFrontendSendResult,
+  MicroFrontendSubscribeOptions,
+  MicroFrontendSubscription,
+  TypedMicroFrontendMessage,
+} from '@angular-microfrontends-poc/shared-types';
+import { MESSAGE_SCHEMAS } from './message-schemas';
+import { MESSAGE_RETENTION, MessageStore } from './message-store';
+import { MESSAGE_PERSISTENCE, MessagePersistenceConfig, PersistedMessage, selectPersistedMessages } from './message-persistence';
+import { CROSS_TAB_SYNC, CrossTabTransport } from './cross-tab-transport';
+import { REMOTE_DEFINITIONS } from './remote-manifest';
+import { findPolicyViolation, MESSAGE_POLICY } from './message-policy';
+import {
+  MESSAGE_INTERCEPTORS,
+  MessageInterceptorContext,
+  MessageInterceptorFn,
+  MessageInterceptorPhase,
+  runMessageInterceptors
+} from './message-interceptors';
+
+// Milliseconds a request waits for its response unless the caller overrides it
+const DEFAULT_REQUEST_TIMEOUT = 5000;
+
+// Delivery modes a message may be sent with
+const DELIVERY_MODES: MicroFrontendDeliveryMode[] = ['at-most-once', 'replay-last-per-type', 'replay-all-pending'];
 
 /**
  * Service responsible for managing communication between the application shell and micro frontends
@@ -9,18 +63,75 @@ import { CentralizedApi, ChangedDataEvent, MicroFrontendApi, MicroFrontendMessag
   providedIn: 'root',
 })
 export class MicroFrontendsCommunicationService {
-  private readonly microfrontends = Object.keys(Microfrontends);
+  private readonly microfrontends = inject(REMOTE_DEFINITIONS).map(remote => remote.name);
   private readonly SHELL_NAME = 'application-shell';
   
-  // Message store for all micro frontends
-  private readonly messageStore: MicroFrontendMessage<any>[] = [];
+  // Message store for all micro frontends; its maximum count also bounds the dead letters and held messages
+  private readonly retention = inject(MESSAGE_RETENTION);
+  private readonly messageStore = new MessageStore(this.retention);
   
-  // Signals to track messages by type and target
+  // Signals to track messages by type and target, updated as messages are stored
   readonly messageSignals = new Map<string, ReturnType<typeof signal<MicroFrontendMessage<any> | undefined>>>();
   
+  // Opt-in persistence of messages across reloads
+  private readonly persistence = inject(MESSAGE_PERSISTENCE);
+  
+  // Pending save, so snapshots are written one after the other
+  private persistQueue = Promise.resolve();
+  
+  // Identifies this browser tab in mirrored messages
+  readonly tabId = crypto.randomUUID();
+  
+  // Optional mirroring of messages to other tabs, created by init()
+  private readonly crossTabSync = inject(CROSS_TAB_SYNC);
+  private crossTabTransport?: CrossTabTransport;
+  private readonly destroyRef = inject(DestroyRef);
+  
+  // Runtime payload validators by message type
+  private readonly messageSchemas = new Map<string, MicroFrontendPayloadValidator>();
+  
+  // Which senders may send which types to which targets, null when everything is allowed
+  private readonly messagePolicy = inject(MESSAGE_POLICY);
+  
+  // Interceptors every message passes on send and on delivery, run in the shell's injection context
+  private readonly injector = inject(EnvironmentInjector);
+  private readonly interceptors: MessageInterceptorFn[] = inject(MESSAGE_INTERCEPTORS).map(
+    (interceptor) => (message, context) => runInInjectionContext(this.injector, () => interceptor(message, context))
+  );
+  
+  // Messages and requests rejected by validation, the policy or an interceptor, oldest first
+  readonly deadLetters = signal<MicroFrontendMessageRejection[]>([]);
+  
+  // Messages sent with a replay delivery mode that no subscription of their recipient received yet, oldest first
+  readonly heldMessages = signal<MicroFrontendMessage<unknown>[]>([]);
+  
+  // Subscriptions, held messages and request handlers of all micro frontends, shared with the in-memory bus.
+  // The shell reads its messages from the store, so messages to the shell are never held.
+  private readonly delivery = new MicroFrontendDelivery({
+    unheldRecipients: [this.SHELL_NAME],
+    onHeldChange: (held) => {
+      this.heldMessages.set(held);
+      this.persistMessages();
+    },
+    heldLimit: this.retention.maxCount
+  });
+  
+  // The shell's own API handle, created by init()
+  private shellApi?: MicroFrontendApi;
+  
+  // Observers of the messages, requests and responses passing through the shell, such as the devtools timeline
+  private readonly messageObservers = new Set<(message: MicroFrontendMessage<unknown>) => void>();
+  
   constructor() {
     // Initialize signals for common message types
     this.initializeSignals();
+    
+    // Register the schemas known to the shell
+    Object.entries(MESSAGE_SCHEMAS).forEach(([type, validator]) => {
+      if (validator) {
+        this.messageSchemas.set(type, validator);
+      }
+    });
   }
 
   /**
@@ -38,111 +149,527 @@ export class MicroFrontendsCommunicationService {
   }
 
   /**
-   * Initializes the communication API and makes it available to all micro frontends
+   * Restores persisted messages into the store and the message signals.
+   * Must complete before any API handle is issued, which `provideMessagePersistence` guarantees.
    */
-  init() {
-    const centralizedApi: CentralizedApi = {};
-
-    // Create API for each micro frontend and the shell itself
-    this.microfrontends.forEach((mfName) => {
-      centralizedApi[mfName] = this.createApiForMicroFrontend(mfName);
-    });
+  async restorePersistedMessages(): Promise<void> {
+    if (!this.persistence) {
+      return;
+    }
+    
+    try {
+      const messages = await this.persistence.adapter.load();
+      this.restoreMessages(messages);
+      
+      console.log(`Restored ${messages.length} persisted messages`);
+    } catch (error) {
+      console.error('Error restoring persisted messages:', error);
+    }
+  }
+  
+  /**
+   * Adds persisted messages to the store and the message signals without delivering them to any subscription.
+   * Messages that were still held for their recipient are held again, following their delivery mode.
+   * @param messages The messages to restore
+   */
+  private restoreMessages(messages: PersistedMessage[]): void {
+    const restored = [...messages]
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .map(({ held, ...message }) => {
+        this.messageStore.add(message);
+        this.updateSignals(message);
+        return { message, held };
+      });
+    
+    // No micro frontend has subscribed yet, so delivering a message holds it
+    restored.filter(({ held }) => held).forEach(({ message }) => this.delivery.deliver(message));
+  }
+  
+  /**
+   * Gets every message retained by the store
+   * @returns The retained messages, oldest first
+   */
+  getAllMessages(): MicroFrontendMessage<unknown>[] {
+    return this.messageStore.all();
+  }
+  
+  /**
+   * Sends a message again on behalf of its original sender, through the interceptors, validation and policy.
+   * Broadcasts are published again; requests and responses are refused, since nobody awaits them anymore.
+   * @param message The sender, target, type, payload and role of the message to send
+   * @returns Whether the message was accepted
+   */
+  resendMessage(
+    message: Pick<MicroFrontendMessage<unknown>, 'from' | 'to' | 'type' | 'payload' | 'delivery' | 'kind'>
+  ): MicroFrontendSendResult {
+    const { from, to, type, payload, delivery, kind } = message;
+    const resent: MicroFrontendMessage<unknown> = { from, to, type, payload, timestamp: Date.now(), ...(delivery ? { delivery } : {}) };
+    
+    if (kind === 'request' || kind === 'response') {
+      return {
+        accepted: false,
+        rejection: { code: 'INVALID_ENVELOPE', errors: [`a ${kind} cannot be sent again`], message: { ...resent, kind }, rejectedAt: Date.now() }
+      };
+    }
+    return this.sendMessage(resent);
+  }
 
-    // Add API for the shell itself
-    centralizedApi[this.SHELL_NAME] = this.createApiForMicroFrontend(this.SHELL_NAME);
+  /**
+   * Observes the messages stored by the shell as they are delivered, and the requests and responses
+   * passing through it; restored messages are not observed
+   * @param observer Called with each message, request and response
+   * @returns A function that stops the observation
+   */
+  observeMessages(observer: (message: MicroFrontendMessage<unknown>) => void): () => void {
+    this.messageObservers.add(observer);
+    return () => {
+      this.messageObservers.delete(observer);
+    };
+  }
 
-    // Make the API accessible globally
-    window.CentralizedAPI = centralizedApi;
+  /**
+   * Initializes the shell's own API and the cross-tab transport; calling it again has no effect.
+   * Micro frontends receive their API handles through `issueApi` when they are mounted.
+   */
+  init() {
+    if (this.shellApi) {
+      return;
+    }
+    
+    // Create the API for the shell itself
+    this.shellApi = this.createApiForMicroFrontend(this.SHELL_NAME);
     
-    // Set up communication listeners
-    this.setupCommunication();
+    // Answer pings addressed to the shell
+    this.shellApi.handle('ping', () => ({ name: this.SHELL_NAME, timestamp: Date.now() }));
+    
+    // Receive the messages mirrored from other tabs
+    if (this.crossTabSync && !this.crossTabTransport) {
+      const transport = new CrossTabTransport(this.crossTabSync, this.tabId, (message) => this.deliverMessage(message));
+      this.destroyRef.onDestroy(() => transport.close());
+      this.crossTabTransport = transport;
+    }
 
     console.log('MicroFrontendsCommunicationService initialized');
   }
 
+  /**
+   * Issues the API handle of a micro frontend when the shell mounts it.
+   * Every message sent through the handle carries the micro frontend's name as sender.
+   * @param name The name the shell assigned to the micro frontend
+   * @param lifetime Releases the handle's subscriptions and request handlers when destroyed, such as the mount's injector
+   * @returns The API acting on behalf of the micro frontend
+   */
+  issueApi(name: string, lifetime?: MicroFrontendDestroyRef): MicroFrontendApi {
+    if (name === this.SHELL_NAME) {
+      throw new Error(`The ${this.SHELL_NAME} API handle cannot be issued to a micro frontend`);
+    }
+    
+    return this.createApiForMicroFrontend(name, lifetime);
+  }
+
   /**
    * Creates a type-safe API for a specific micro frontend
    * @param owner The name of the micro frontend owner
+   * @param lifetime Releases the subscriptions and request handlers created through the API when destroyed
    * @returns A type-safe API for the micro frontend
    */
-  private createApiForMicroFrontend(owner: string): MicroFrontendApi {
+  private createApiForMicroFrontend(owner: string, lifetime?: MicroFrontendDestroyRef): MicroFrontendApi {
     return {
-      getMessages: <T = unknown>(filterType?: string): MicroFrontendMessage<T>[] => {
-        return this.messageStore
-          .filter(msg => msg.to === owner && (!filterType || msg.type === filterType))
-          .map(msg => msg as MicroFrontendMessage<T>);
+      getMessages: <K extends MicroFrontendMessageType = MicroFrontendMessageType>(
+        filter?: K | MicroFrontendMessageQuery<K>
+      ): TypedMicroFrontendMessage<K>[] => {
+        // A bare message type is shorthand for a query on that type
+        const query = typeof filter === 'string' ? { type: filter } : filter;
+        return this.messageStore.query(owner, query) as TypedMicroFrontendMessage<K>[];
       },
       
-      getLatestMessage: <T = unknown>(type: string): MicroFrontendMessage<T> | undefined => {
+      getLatestMessage: <K extends MicroFrontendMessageType>(type: K): TypedMicroFrontendMessage<K> | undefined => {
         // Find the latest message of the given type sent to this owner
-        const messages = this.messageStore
-          .filter(msg => msg.to === owner && msg.type === type)
-          .sort((a, b) => b.timestamp - a.timestamp);
-          
-        return messages[0] as MicroFrontendMessage<T> | undefined;
+        return this.messageStore.latest(owner, type) as TypedMicroFrontendMessage<K> | undefined;
       },
       
-      sendMessage: <T = unknown>(to: string, type: string, payload: T): void => {
-        // Create a new message
-        const message: MicroFrontendMessage<T> = {
+      sendMessage: <K extends MicroFrontendMessageType>(
+        to: string,
+        type: K,
+        payload: MicroFrontendMessagePayload<K>,
+        options: MicroFrontendSendOptions = {}
+      ): MicroFrontendSendResult => {
+        return this.sendMessage({
           from: owner,
           to,
           type,
           payload,
+          timestamp: Date.now(),
+          ...(options.delivery ? { delivery: options.delivery } : {})
+        });
+      },
+      
+      publish: <K extends MicroFrontendMessageType>(
+        topic: K,
+        payload: MicroFrontendMessagePayload<K>
+      ): MicroFrontendSendResult => {
+        return this.sendMessage({
+          from: owner,
+          to: MICRO_FRONTEND_BROADCAST,
+          type: topic,
+          payload,
           timestamp: Date.now()
-        };
+        });
+      },
+      
+      subscribe: (
+        pattern: string,
+        listener: MicroFrontendMessageListener,
+        options: MicroFrontendSubscribeOptions = {}
+      ): MicroFrontendSubscription => {
+        // Messages held for the owner until it subscribed are handed over first
+        const unsubscribe = this.delivery.subscribe(owner, pattern, listener);
+        
+        // Tie the subscription to the lifetime of its owner's injector or component
+        options.destroyRef?.onDestroy(unsubscribe);
+        lifetime?.onDestroy(unsubscribe);
         
-        // Add to the message store
-        this.messageStore.push(message);
+        return { unsubscribe };
+      },
+      
+      request: <K extends MicroFrontendRequestType>(
+        to: string,
+        type: K,
+        payload: MicroFrontendRequestPayload<K>,
+        options: MicroFrontendRequestOptions = {}
+      ): Promise<MicroFrontendResponsePayload<K>> => {
+        const message: MicroFrontendMessage<MicroFrontendRequestPayload<K>> = {
+          from: owner,
+          to,
+          type,
+          payload,
+          timestamp: Date.now(),
+          kind: 'request',
+          correlationId: crypto.randomUUID()
+        };
         
-        // Dispatch event to notify listeners
-        window.dispatchEvent(new CustomEvent<ChangedDataEvent<T>>('message-event', {
-          detail: {
-            message: message as MicroFrontendMessage<any>,
-          }
-        }));
+        return this.dispatchRequest(message, options.timeout ?? DEFAULT_REQUEST_TIMEOUT) as Promise<MicroFrontendResponsePayload<K>>;
+      },
+      
+      handle: <K extends MicroFrontendRequestType>(type: K, handler: MicroFrontendRequestHandler<K>): (() => void) => {
+        // Only removes the handler if it has not been replaced in the meantime
+        const remove = this.delivery.handle(owner, type, handler);
+        lifetime?.onDestroy(remove);
         
-        console.log(`Message sent from ${owner} to ${to}:`, message);
+        return remove;
       }
     };
   }
   
   /**
-   * Sets up the communication listeners for all micro frontends
+   * Passes a message sent by a micro frontend through the send interceptors, then delivers it
+   * @param message The message as sent
+   * @returns Whether the message was accepted, deferred when an interceptor delays it
    */
-  private setupCommunication(): void {
-    // Listen for message events
-    window.addEventListener('message-event', ((event: Event) => {
-      const customEvent = event as CustomEvent<ChangedDataEvent<any>>;
-      const { message } = customEvent.detail;
-      
-      // Update the appropriate signal based on the message
-      if (message) {
-        const { from, to, type } = message;
-        
-        // Create signal key based on from, to and type
-        const signalKey = `${from}:${to}:${type}`;
-        let signalRef = this.messageSignals.get(signalKey);
-        
-        if (!signalRef) {
-          // Create a new signal if one doesn't exist for this message pattern
-          signalRef = signal<MicroFrontendMessage<any> | undefined>(undefined);
-          this.messageSignals.set(signalKey, signalRef);
-        }
-        
-        // Update the signal value
-        signalRef.set(message);
-        
-        // Also update a generic signal for this source-target pair
-        const defaultSignalKey = `${from}:${to}:default`;
-        const defaultSignal = this.messageSignals.get(defaultSignalKey) || 
-                              signal<MicroFrontendMessage<any> | undefined>(undefined);
-        this.messageSignals.set(defaultSignalKey, defaultSignal);
-        defaultSignal.set(message);
-        
-        console.log(`Received message from ${from} to ${to}:`, message);
-      }
-    }) as EventListener);
+  private sendMessage(message: MicroFrontendMessage<unknown>): MicroFrontendSendResult {
+    const intercepted = this.intercept(message, { phase: 'send' });
+    
+    if (intercepted instanceof Promise) {
+      intercepted.then((delayed) => (delayed ? this.deliverMessage(delayed) : this.dropMessage(message)));
+      return { accepted: true, deferred: true };
+    }
+    
+    return intercepted ? this.deliverMessage(intercepted) : this.dropMessage(message);
+  }
+  
+  /**
+   * Runs the interceptors, dropping the message when one of them fails
+   * @param message The message to intercept
+   * @param context Where the interceptors are called
+   * @returns The message to pass on, null when dropped, or a promise of either when delayed
+   */
+  private intercept(
+    message: MicroFrontendMessage<unknown>,
+    context: MessageInterceptorContext
+  ): MicroFrontendMessage<unknown> | null | Promise<MicroFrontendMessage<unknown> | null> {
+    const reportFailure = (error: unknown) => {
+      console.error(`Message interceptor failed on ${context.phase} of '${message.type}' from ${message.from}:`, error);
+      return null;
+    };
+    
+    try {
+      const result = runMessageInterceptors(this.interceptors, message, context);
+      return result instanceof Promise ? result.catch(reportFailure) : result;
+    } catch (error) {
+      return reportFailure(error);
+    }
+  }
+  
+  /**
+   * Reports a message dropped by an interceptor before it was delivered
+   * @param message The message as sent
+   * @returns The rejection of the message
+   */
+  private dropMessage(message: MicroFrontendMessage<unknown>): MicroFrontendSendResult {
+    const rejection: MicroFrontendMessageRejection = {
+      code: 'DROPPED',
+      errors: ['Dropped by a message interceptor'],
+      message,
+      rejectedAt: Date.now()
+    };
+    this.reportRejection(rejection);
+    return { accepted: false, rejection };
+  }
+  
+  /**
+   * Validates a message and passes it through the delivery interceptors, then records it
+   * @param received The message to deliver
+   * @returns Whether the message was accepted, deferred when an interceptor delays it
+   */
+  private deliverMessage(received: MicroFrontendMessage<unknown>): MicroFrontendSendResult {
+    const { from, to } = received;
+    
+    // Reject invalid or forbidden messages before they reach the store
+    const rejection = this.validateMessage(received) ?? this.checkPolicy(received);
+    if (rejection) {
+      this.reportRejection(rejection);
+      return { accepted: false, rejection };
+    }
+    
+    // Messages mirrored from other tabs keep their id and origin
+    const message: MicroFrontendMessage<unknown> = {
+      ...received,
+      id: received.id ?? crypto.randomUUID(),
+      originTabId: received.originTabId ?? this.tabId
+    };
+    
+    // Mirror to other tabs; messages handled by the leader tab stop here until it delivers them
+    if (this.crossTabTransport && !this.crossTabTransport.outgoing(message)) {
+      console.log(`Message from ${from} to ${to} handed over to the leader tab:`, message);
+      return { accepted: true, deferred: true };
+    }
+    
+    // Let the delivery interceptors see the message before it is stored and its recipients see it
+    const intercepted = this.intercept(message, { phase: 'deliver' });
+    if (intercepted instanceof Promise) {
+      intercepted.then((delayed) => (delayed ? this.recordMessage(delayed) : this.dropMessage(message)));
+      return { accepted: true, deferred: true };
+    }
+    
+    if (!intercepted) {
+      return this.dropMessage(message);
+    }
+    
+    this.recordMessage(intercepted);
+    return { accepted: true };
+  }
+  
+  /**
+   * Stores a message and publishes it on the message signals, then notifies the subscriptions of every recipient
+   * @param message The message returned by the delivery interceptors
+   */
+  private recordMessage(message: MicroFrontendMessage<unknown>): void {
+    const { from, to } = message;
+    
+    // Add to the message store and publish it on the message signals
+    this.messageStore.add(message);
+    this.updateSignals(message);
+    this.messageObservers.forEach((observer) => observer(message));
+    
+    // The shell receives the messages sent to it through its store
+    if (to === this.SHELL_NAME) {
+      this.delivery.reportDelivery(message, this.SHELL_NAME);
+    }
+    
+    // Direct messages nobody received yet are held until their recipient subscribes
+    this.delivery.deliver(message);
+    
+    this.persistMessages();
+    
+    console.log(`Message sent from ${from} to ${to}:`, message);
+  }
+  
+  /**
+   * Saves the messages selected by the persistence rules, flagging the ones still held, if persistence is enabled
+   */
+  private persistMessages(): void {
+    const persistence = this.persistence;
+    if (!persistence) {
+      return;
+    }
+    
+    const held = new Set(this.heldMessages().map(({ id }) => id));
+    const messages: PersistedMessage[] = selectPersistedMessages(this.messageStore.all(), persistence).map((message) =>
+      message.id && held.has(message.id) ? { ...message, held: true } : message
+    );
+    this.persistQueue = this.persistQueue
+      .then(() => persistence.adapter.save(messages))
+      .catch((error) => console.error('Error persisting messages:', error));
+  }
+  
+  /**
+   * Delivers a request to the handler registered by its target and waits for the response.
+   * Requests pass the interceptors, validation and policy like messages; responses pass the interceptors.
+   * @param message The request message
+   * @param timeout Milliseconds to wait for the response
+   * @returns A promise resolved with the response payload
+   */
+  private async dispatchRequest(message: MicroFrontendMessage<unknown>, timeout: number): Promise<unknown> {
+    const sent = await this.interceptRequest(message, 'send');
+    
+    const rejection = this.validateMessage(sent) ?? this.checkPolicy(sent);
+    if (rejection) {
+      this.reportRejection(rejection);
+      throw createMicroFrontendRequestError(
+        rejection.code === 'FORBIDDEN' ? 'FORBIDDEN' : 'INVALID',
+        rejection.errors.join(', '),
+        message.correlationId
+      );
+    }
+    
+    const request = await this.interceptRequest(sent, 'deliver');
+    this.messageObservers.forEach((observer) => observer(request));
+    console.log(`Request sent from ${request.from} to ${request.to}:`, request);
+    
+    const answered = await this.delivery.request(request, timeout);
+    const response = await this.interceptRequest(await this.interceptRequest(answered, 'send'), 'deliver');
+    this.messageObservers.forEach((observer) => observer(response));
+    console.log(`Response sent from ${response.from} to ${response.to}:`, response);
+    
+    return response.payload;
+  }
+  
+  /**
+   * Runs the interceptors on a request or response, rejecting it when one of them drops it
+   * @param message The request or response
+   * @param phase Where the interceptors are called
+   * @returns A promise resolved with the message to pass on
+   */
+  private async interceptRequest(
+    message: MicroFrontendMessage<unknown>,
+    phase: MessageInterceptorPhase
+  ): Promise<MicroFrontendMessage<unknown>> {
+    const intercepted = await this.intercept(message, { phase });
+    if (!intercepted) {
+      this.dropMessage(message);
+      throw createMicroFrontendRequestError('DROPPED', 'Dropped by a message interceptor', message.correlationId);
+    }
+    return intercepted;
+  }
+  
+  /**
+   * Validates a message envelope and its payload against the registered schema
+   * @param message The message to validate
+   * @returns The rejection when the message is invalid, undefined otherwise
+   */
+  private validateMessage(message: MicroFrontendMessage<unknown>): MicroFrontendMessageRejection | undefined {
+    const envelopeErrors: string[] = [];
+    if (typeof message.to !== 'string' || !message.to) {
+      envelopeErrors.push('to must be a non-empty string');
+    }
+    if (typeof message.type !== 'string' || !message.type) {
+      envelopeErrors.push('type must be a non-empty string');
+    }
+    if (message.delivery !== undefined && !DELIVERY_MODES.includes(message.delivery)) {
+      envelopeErrors.push(`delivery must be one of ${DELIVERY_MODES.join(', ')}`);
+    }
+    if (envelopeErrors.length > 0) {
+      return { code: 'INVALID_ENVELOPE', errors: envelopeErrors, message, rejectedAt: Date.now() };
+    }
+    
+    const payloadErrors = this.messageSchemas.get(message.type)?.(message.payload) ?? [];
+    if (payloadErrors.length > 0) {
+      return { code: 'INVALID_PAYLOAD', errors: payloadErrors, message, rejectedAt: Date.now() };
+    }
+    
+    return undefined;
+  }
+  
+  /**
+   * Checks a message or request against the message policy
+   * @param message The message to check
+   * @returns The rejection when the policy forbids the message, undefined otherwise
+   */
+  private checkPolicy(message: MicroFrontendMessage<unknown>): MicroFrontendMessageRejection | undefined {
+    const violation = this.messagePolicy ? findPolicyViolation(this.messagePolicy, message) : undefined;
+    if (!violation) {
+      return undefined;
+    }
+    
+    return { code: 'FORBIDDEN', errors: [violation], message, rejectedAt: Date.now() };
+  }
+  
+  /**
+   * Records a rejected message or request in the dead letters
+   * @param rejection The rejection to report
+   */
+  private reportRejection(rejection: MicroFrontendMessageRejection): void {
+    const { from, to, kind } = rejection.message;
+    // Keep the latest rejections within the retention's maximum count
+    const limit = this.retention.maxCount ?? Infinity;
+    this.deadLetters.update(deadLetters => [...deadLetters, rejection].slice(-limit));
+    console.warn(`${kind === 'request' ? 'Request' : 'Message'} from ${from} to ${to} rejected:`, rejection);
+  }
+  
+  /**
+   * Checks whether a micro frontend receives a message type. The shell receives every message sent to it.
+   * @param name The name of the micro frontend
+   * @param type The message type
+   * @returns Whether the micro frontend is the shell or has a subscription matching the type
+   */
+  isSubscribed(name: string, type: string): boolean {
+    return name === this.SHELL_NAME || this.delivery.isSubscribed(name, type);
+  }
+  
+  /**
+   * Checks whether a micro frontend answers a request type
+   * @param name The name of the micro frontend
+   * @param type The request type
+   * @returns Whether it registered a handler for the type
+   */
+  isHandled(name: string, type: string): boolean {
+    return this.delivery.isHandled(name, type);
+  }
+  
+  /**
+   * Observes the messages micro frontends receive, such as a contract test checking its examples arrive
+   * @param observer Called with each message received and its recipient
+   * @returns A function that stops the observation
+   */
+  observeDeliveries(observer: MicroFrontendDeliveryObserver): () => void {
+    return this.delivery.observeDeliveries(observer);
+  }
+  
+  /**
+   * Registers a runtime schema for a message type, replacing any existing one
+   * @param type The message type
+   * @param validator The payload validator
+   */
+  registerMessageSchema(type: MicroFrontendMessageType, validator: MicroFrontendPayloadValidator): void {
+    this.messageSchemas.set(type, validator);
+  }
+  
+  /**
+   * Updates the signals tracking a message's sender, target and type
+   * @param message The message to publish on the signals
+   */
+  private updateSignals(message: MicroFrontendMessage<any>): void {
+    const { from, to, type } = message;
+    
+    // Create signal key based on from, to and type
+    const signalKey = `${from}:${to}:${type}`;
+    let signalRef = this.messageSignals.get(signalKey);
+    
+    if (!signalRef) {
+      // Create a new signal if one doesn't exist for this message pattern
+      signalRef = signal<MicroFrontendMessage<any> | undefined>(undefined);
+      this.messageSignals.set(signalKey, signalRef);
+    }
+    
+    // Update the signal value
+    signalRef.set(message);
+    
+    // Also update a generic signal for this source-target pair
+    const defaultSignalKey = `${from}:${to}:default`;
+    const defaultSignal = this.messageSignals.get(defaultSignalKey) || 
+                          signal<MicroFrontendMessage<any> | undefined>(undefined);
+    this.messageSignals.set(defaultSignalKey, defaultSignal);
+    defaultSignal.set(message);
   }
   
   /**
@@ -150,11 +677,31 @@ export class MicroFrontendsCommunicationService {
    * @param targetMf The name of the target micro frontend
    * @param type The message type
    * @param payload The message payload
+   * @param options How the message reaches a micro frontend that is not mounted yet
+   */
+  sendMessageToMicroFrontend<K extends MicroFrontendMessageType>(
+    targetMf: string,
+    type: K,
+    payload: MicroFrontendMessagePayload<K>,
+    options?: MicroFrontendSendOptions
+  ): void {
+    const shellApi = this.shellApi;
+    if (shellApi) {
+      shellApi.sendMessage(targetMf, type, payload, options);
+    } else {
+      console.warn('Shell API not available. Make sure the communication service is initialized.');
+    }
+  }
+  
+  /**
+   * Broadcasts a message from the shell on a topic to every micro frontend
+   * @param topic The topic, used as the message type
+   * @param payload The message payload
    */
-  sendMessageToMicroFrontend<T = unknown>(targetMf: string, type: string, payload: T): void {
-    const shellApi = window.CentralizedAPI?.[this.SHELL_NAME];
+  publishMessage<K extends MicroFrontendMessageType>(topic: K, payload: MicroFrontendMessagePayload<K>): void {
+    const shellApi = this.shellApi;
     if (shellApi) {
-      shellApi.sendMessage(targetMf, type, payload);
+      shellApi.publish(topic, payload);
     } else {
       console.warn('Shell API not available. Make sure the communication service is initialized.');
     }
@@ -167,15 +714,44 @@ export class MicroFrontendsCommunicationService {
    * @param type The message type
    * @returns A signal with the latest message
    */
-  getMessageSignal<T = unknown>(fromMf: string, toMf: string, type: string = 'default'): ReturnType<typeof signal<MicroFrontendMessage<T> | undefined>> {
+  getMessageSignal<K extends MicroFrontendMessageType = 'default'>(
+    fromMf: string,
+    toMf: string,
+    type: K = 'default' as K
+  ): ReturnType<typeof signal<TypedMicroFrontendMessage<K> | undefined>> {
     const signalKey = `${fromMf}:${toMf}:${type}`;
     let signalRef = this.messageSignals.get(signalKey);
     
     if (!signalRef) {
-      signalRef = signal<MicroFrontendMessage<T> | undefined>(undefined);
+      signalRef = signal<MicroFrontendMessage<any> | undefined>(undefined);
       this.messageSignals.set(signalKey, signalRef);
     }
     
-    return signalRef as ReturnType<typeof signal<MicroFrontendMessage<T> | undefined>>;
+    return signalRef as ReturnType<typeof signal<TypedMicroFrontendMessage<K> | undefined>>;
   }
 }
+
+/**
+ * Provides the API handle of a micro frontend to the injector it is mounted with, such as a route's
+ * @param name The name the shell assigns to the micro frontend
+ * @returns The provider to add to the route or injector hosting the micro frontend
+ */
+export function provideMicroFrontendApi(name: string): Provider {
+  return {
+    provide: MicroFrontendApi,
+    // The handle lives as long as the injector providing it
+    useFactory: () => inject(MicroFrontendsCommunicationService).issueApi(name, inject(DestroyRef)),
+  };
+}
+
+/**
+ * Enables message persistence and restores persisted messages before the app starts
+ * @param config The adapter and per-type persistence rules
+ * @returns The providers to add to the application config
+ */
+export function provideMessagePersistence(config: MessagePersistenceConfig): EnvironmentProviders {
+  return makeEnvironmentProviders([
+    { provide: MESSAGE_PERSISTENCE, useValue: config },
+    provideAppInitializer(() => inject(MicroFrontendsCommunicationService).restorePersistedMessages()),
+  ]);
+}
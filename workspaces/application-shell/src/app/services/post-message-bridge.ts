@@ -0,0 +1,269 @@
+import { DestroyRef, inject, Injectable, InjectionToken, Provider } from '@angular/core';
+import {
+  isMicroFrontendBridgeEnvelope,
+  MICRO_FRONTEND_BRIDGE_PROTOCOL,
+  MicroFrontendApi,
+  MicroFrontendBridgeEnvelope,
+  MicroFrontendBridgeError,
+  MicroFrontendMessage,
+  MicroFrontendRequestType,
+  MicroFrontendResponsePayload,
+  MicroFrontendSubscription,
+} from '@angular-microfrontends-poc/shared-types';
+import { MicroFrontendsCommunicationService } from './mf-communication.service';
+
+/**
+ * A micro frontend hosted in an iframe and connected over postMessage
+ */
+export interface IframeRemote {
+  name: string;             // Name the shell assigns to the micro frontend
+  url: string;              // Page loaded in the iframe
+  origin?: string;          // Origin allowed to talk to the shell, the origin of url when omitted
+  requestTimeout?: number;  // Milliseconds a request forwarded to the iframe waits for its response, 5000 when omitted
+  roles?: string[];         // Roles of which the user needs one to see the remote, anyone when omitted
+}
+
+/**
+ * Iframe remotes the shell may host
+ */
+export const IFRAME_REMOTES = new InjectionToken<IframeRemote[]>('IFRAME_REMOTES', {
+  providedIn: 'root',
+  factory: () => [],
+});
+
+/**
+ * Registers the iframe remotes the shell may host
+ * @param remotes The remotes and their allowed origins
+ * @returns The provider to add to the application config
+ */
+export function provideIframeRemotes(remotes: IframeRemote[]): Provider {
+  return { provide: IFRAME_REMOTES, useValue: remotes };
+}
+
+// State of one connected iframe
+interface BridgeConnection {
+  remote: IframeRemote;
+  origin: string;
+  api?: MicroFrontendApi;
+  subscription?: MicroFrontendSubscription;
+  handlers: Map<string, () => void>;
+  pendingRequests: Map<string, { resolve: (value: unknown) => void; reject: (error: Error) => void }>;
+}
+
+/**
+ * Shell side of the postMessage bridge: answers the handshake of known iframes
+ * and executes their API calls on their behalf
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class PostMessageBridgeHost {
+  private readonly communicationService = inject(MicroFrontendsCommunicationService);
+  private readonly connections = new Map<MessageEventSource, BridgeConnection>();
+
+  constructor() {
+    const listener = (event: MessageEvent) => this.receive(event);
+    window.addEventListener('message', listener);
+    inject(DestroyRef).onDestroy(() => window.removeEventListener('message', listener));
+  }
+
+  /**
+   * Accepts the handshake of an iframe window on behalf of a remote
+   * @param frame The content window of the iframe
+   * @param remote The remote loaded in the iframe
+   * @returns A function that disconnects the iframe
+   */
+  connect(frame: Window, remote: IframeRemote): () => void {
+    const connection: BridgeConnection = {
+      remote,
+      origin: remote.origin ?? new URL(remote.url).origin,
+      handlers: new Map(),
+      pendingRequests: new Map(),
+    };
+    this.connections.set(frame, connection);
+
+    return () => {
+      this.teardown(connection);
+      this.connections.delete(frame);
+    };
+  }
+
+  private receive(event: MessageEvent): void {
+    const connection = event.source ? this.connections.get(event.source) : undefined;
+
+    // Only the iframes the shell created, on their allowed origin, may use the bridge
+    if (!connection || event.origin !== connection.origin) {
+      return;
+    }
+
+    const envelope = event.data;
+    if (!isMicroFrontendBridgeEnvelope(envelope)) {
+      console.warn(`Ignoring malformed bridge envelope from ${connection.remote.name}:`, envelope);
+      return;
+    }
+
+    const source = event.source as Window;
+    switch (envelope.kind) {
+      case 'hello':
+        this.welcome(source, connection);
+        break;
+
+      case 'call':
+        this.execute(source, connection, envelope.id, envelope.method, envelope.args);
+        break;
+
+      case 'response': {
+        const pending = connection.pendingRequests.get(envelope.id);
+        connection.pendingRequests.delete(envelope.id);
+        if (envelope.error) {
+          pending?.reject(new Error(envelope.error.message));
+        } else {
+          pending?.resolve(envelope.value);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Completes the handshake; a repeated hello (e.g. after the iframe reloaded) starts over
+   */
+  private welcome(source: Window, connection: BridgeConnection): void {
+    if (connection.api) {
+      this.teardown(connection);
+    }
+
+    const { name } = connection.remote;
+    const api = this.communicationService.issueApi(name);
+    connection.api = api;
+
+    // The welcome goes first: the iframe ignores messages until it has been welcomed
+    this.post(source, connection, {
+      protocol: MICRO_FRONTEND_BRIDGE_PROTOCOL,
+      kind: 'welcome',
+      name,
+      messages: api.getMessages() as MicroFrontendMessage<unknown>[],
+    });
+
+    // Push every message delivered to the remote into the iframe, starting with the ones held for it
+    connection.subscription = api.subscribe('**', (message) => {
+      this.post(source, connection, { protocol: MICRO_FRONTEND_BRIDGE_PROTOCOL, kind: 'message', message });
+    });
+
+    console.log(`Iframe remote ${name} connected from ${connection.origin}`);
+  }
+
+  /**
+   * Runs an API call made by the iframe and posts back its result
+   */
+  private execute(source: Window, connection: BridgeConnection, id: string, method: string, args: unknown[]): void {
+    const api = connection.api;
+    if (!api || !Array.isArray(args)) {
+      this.post(source, connection, {
+        protocol: MICRO_FRONTEND_BRIDGE_PROTOCOL,
+        kind: 'result',
+        id,
+        error: { message: 'Bridge call rejected: handshake not completed or malformed arguments' },
+      });
+      return;
+    }
+
+    Promise.resolve()
+      .then(() => this.invoke(source, connection, api, method, args))
+      .then(
+        (value) => this.post(source, connection, { protocol: MICRO_FRONTEND_BRIDGE_PROTOCOL, kind: 'result', id, value }),
+        (error: unknown) =>
+          this.post(source, connection, { protocol: MICRO_FRONTEND_BRIDGE_PROTOCOL, kind: 'result', id, error: toBridgeError(error) })
+      );
+  }
+
+  private invoke(source: Window, connection: BridgeConnection, api: MicroFrontendApi, method: string, args: unknown[]): unknown {
+    switch (method) {
+      case 'sendMessage':
+        return api.sendMessage(...(args as Parameters<MicroFrontendApi['sendMessage']>));
+
+      case 'publish':
+        return api.publish(...(args as Parameters<MicroFrontendApi['publish']>));
+
+      case 'request':
+        return api.request(...(args as Parameters<MicroFrontendApi['request']>));
+
+      case 'handle': {
+        const type = args[0] as MicroFrontendRequestType;
+        connection.handlers.get(type)?.();
+
+        // The iframe's response is data posted back, so it is not checked against the registry
+        const forward = (_payload: unknown, message: MicroFrontendMessage<unknown>) =>
+          this.forwardRequest(source, connection, message) as Promise<MicroFrontendResponsePayload<typeof type>>;
+        connection.handlers.set(type, api.handle(type, forward));
+        return undefined;
+      }
+
+      case 'unhandle': {
+        const type = args[0] as string;
+        connection.handlers.get(type)?.();
+        connection.handlers.delete(type);
+        return undefined;
+      }
+
+      default:
+        throw new Error(`Unknown bridge method '${method}'`);
+    }
+  }
+
+  /**
+   * Forwards a request addressed to the iframe remote to its handler and waits for the response.
+   * The request is forgotten once the remote's request timeout elapses, even if the requester stopped waiting earlier.
+   */
+  private forwardRequest(source: Window, connection: BridgeConnection, message: MicroFrontendMessage<unknown>): Promise<unknown> {
+    const id = crypto.randomUUID();
+    const timeout = connection.remote.requestTimeout ?? 5000;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        connection.pendingRequests.delete(id);
+        reject(new Error(`${connection.remote.name} did not answer request '${message.type}' within ${timeout}ms`));
+      }, timeout);
+
+      connection.pendingRequests.set(id, {
+        resolve: (value) => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+      this.post(source, connection, { protocol: MICRO_FRONTEND_BRIDGE_PROTOCOL, kind: 'request', id, message });
+    });
+  }
+
+  private post(source: Window, connection: BridgeConnection, envelope: MicroFrontendBridgeEnvelope): void {
+    try {
+      source.postMessage(envelope, connection.origin);
+    } catch (error) {
+      console.warn(`Could not post ${envelope.kind} to iframe remote ${connection.remote.name}:`, error);
+    }
+  }
+
+  private teardown(connection: BridgeConnection): void {
+    connection.subscription?.unsubscribe();
+    connection.handlers.forEach((unregister) => unregister());
+    connection.handlers.clear();
+    connection.pendingRequests.forEach(({ reject }) => reject(new Error(`${connection.remote.name} disconnected`)));
+    connection.pendingRequests.clear();
+    connection.api = undefined;
+  }
+}
+
+/**
+ * Converts a thrown value into an error that survives postMessage
+ */
+function toBridgeError(error: unknown): MicroFrontendBridgeError {
+  if (error instanceof Error) {
+    const { code } = error as Error & { code?: string };
+    return { message: error.message, code };
+  }
+  return { message: String(error) };
+}
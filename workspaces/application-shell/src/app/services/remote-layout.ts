@@ -0,0 +1,39 @@
+import { MicroFrontendMountBindings, MicroFrontendMountName } from '@angular-microfrontends-poc/shared-types';
+import { RemoteDefinition } from './remote-manifest';
+
+/**
+ * The remote filling a slot and the inputs set on its component once it is mounted,
+ * checked against the remote's mount contract; remotes without a contract take no inputs
+ */
+export type RemoteLayoutSlotRemote =
+  | { [K in MicroFrontendMountName]: { remote: K; inputs?: MicroFrontendMountBindings<K> } }[MicroFrontendMountName]
+  | { remote: string; inputs?: undefined };
+
+/**
+ * A slot of a layout and the remote that fills it
+ */
+export type RemoteLayoutSlot = RemoteLayoutSlotRemote & {
+  id: string;                       // Identifies the slot within its layout
+  title?: string;                   // Heading of the slot, the remote's display name when omitted
+  span?: number;                    // Number of columns the slot spans, 1 when omitted
+  lazy?: boolean;                   // Load the remote once the slot scrolls into view, true when omitted
+};
+
+/**
+ * Composition of several remotes on one page, set in a route's `layout` data
+ */
+export interface RemoteLayout {
+  columns?: number; // Number of grid columns, 2 when omitted
+  slots: RemoteLayoutSlot[];
+}
+
+/**
+ * Builds the default layout showing every remote of the manifest in navigation order
+ * @param remotes The remotes declared in the manifest
+ * @returns A layout with one slot per remote
+ */
+export function createManifestLayout(remotes: RemoteDefinition[]): RemoteLayout {
+  return {
+    slots: remotes.map(remote => ({ id: remote.name, remote: remote.name })),
+  };
+}
@@ -0,0 +1,163 @@
+import { inject, Injectable, InjectionToken, Provider, Signal, signal, Type, WritableSignal } from '@angular/core';
+import { loadRemoteModule, LoadRemoteModuleOptions } from '@angular-architects/module-federation';
+import { RemoteDefinition } from './remote-manifest';
+
+/**
+ * Retry and timeout settings for loading remotes
+ */
+export interface RemoteLoadingConfig {
+  retries: number;        // Attempts made after the first one failed
+  retryDelay: number;     // Milliseconds before the first retry
+  backoffFactor: number;  // Multiplier applied to the delay after each retry
+  maxRetryDelay: number;  // Upper bound of the delay between attempts
+  timeout: number;        // Milliseconds a single attempt may take
+}
+
+export const DEFAULT_REMOTE_LOADING: RemoteLoadingConfig = {
+  retries: 2,
+  retryDelay: 500,
+  backoffFactor: 2,
+  maxRetryDelay: 5000,
+  timeout: 10000,
+};
+
+/**
+ * Retry and timeout settings used by the remote loader
+ */
+export const REMOTE_LOADING = new InjectionToken<RemoteLoadingConfig>('REMOTE_LOADING', {
+  providedIn: 'root',
+  factory: () => DEFAULT_REMOTE_LOADING,
+});
+
+/**
+ * Overrides the retry and timeout settings of the remote loader
+ * @param config The settings to override, the others keep their defaults
+ * @returns The provider to add to the application config
+ */
+export function provideRemoteLoading(config: Partial<RemoteLoadingConfig>): Provider {
+  return { provide: REMOTE_LOADING, useValue: { ...DEFAULT_REMOTE_LOADING, ...config } };
+}
+
+// Load status of a remote
+export type RemoteLoadStatus = 'idle' | 'loading' | 'loaded' | 'failed';
+
+/**
+ * Load state of a remote, as reported to the views mounting it
+ */
+export interface RemoteLoadState {
+  status: RemoteLoadStatus;
+  attempt: number;  // Current or last attempt, 0 before the first one
+  error?: string;   // Reason of the last failure
+}
+
+/**
+ * Loads the components exposed by remotes, with retries, backoff and timeouts,
+ * and reports the load state of every remote
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class RemoteLoaderService {
+  private readonly config = inject(REMOTE_LOADING);
+
+  // Load state by remote name
+  private readonly states = new Map<string, WritableSignal<RemoteLoadState>>();
+
+  // Loads in progress or completed, so concurrent views share one load
+  private readonly loads = new Map<string, Promise<Type<unknown>>>();
+
+  /**
+   * Gets the load state of a remote
+   * @param name The name of the remote
+   * @returns A signal updated on every attempt
+   */
+  status(name: string): Signal<RemoteLoadState> {
+    return this.state(name).asReadonly();
+  }
+
+  /**
+   * Loads the component of a remote, retrying failed attempts with backoff.
+   * Calling it again after every attempt failed starts a new series of attempts.
+   * @param remote The remote definition
+   * @returns A promise resolved with the component, rejected once every attempt failed
+   */
+  load(remote: RemoteDefinition): Promise<Type<unknown>> {
+    let load = this.loads.get(remote.name);
+    if (!load) {
+      load = this.loadWithRetries(remote);
+      this.loads.set(remote.name, load);
+
+      // A failed load is forgotten so it can be retried
+      load.catch(() => this.loads.delete(remote.name));
+    }
+    return load;
+  }
+
+  private async loadWithRetries(remote: RemoteDefinition): Promise<Type<unknown>> {
+    const state = this.state(remote.name);
+    let delay = this.config.retryDelay;
+
+    for (let attempt = 1; ; attempt++) {
+      state.set({ status: 'loading', attempt });
+
+      try {
+        const component = await this.withTimeout(this.loadComponent(remote, attempt), remote);
+        state.set({ status: 'loaded', attempt });
+        return component;
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+
+        if (attempt > this.config.retries) {
+          state.set({ status: 'failed', attempt, error: reason });
+          console.error(`Error loading ${remote.displayName} after ${attempt} attempts:`, error);
+          throw error;
+        }
+
+        console.warn(`Attempt ${attempt} to load ${remote.displayName} failed, retrying in ${delay}ms:`, error);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        delay = Math.min(delay * this.config.backoffFactor, this.config.maxRetryDelay);
+      }
+    }
+  }
+
+  private async loadComponent(remote: RemoteDefinition, attempt: number): Promise<Type<unknown>> {
+    // Browsers remember failed module imports by URL, so later attempts load the remote entry under a new URL
+    const remoteModule = attempt === 1
+      ? await loadRemoteModule({ type: 'manifest', remoteName: remote.name, exposedModule: remote.exposedModule })
+      : await loadRemoteModule(this.retryOptions(remote));
+
+    const component = remoteModule[remote.componentName];
+    if (typeof component !== 'function') {
+      throw new Error(`${remote.exposedModule} of ${remote.name} does not export ${remote.componentName}`);
+    }
+    return component;
+  }
+
+  private retryOptions(remote: RemoteDefinition): LoadRemoteModuleOptions {
+    const remoteEntry = `${remote.remoteEntry}?attempt=${Date.now()}`;
+    return remote.type === 'script'
+      ? { type: 'script', remoteEntry, remoteName: remote.name, exposedModule: remote.exposedModule }
+      : { type: 'module', remoteEntry, exposedModule: remote.exposedModule };
+  }
+
+  private withTimeout<T>(promise: Promise<T>, remote: RemoteDefinition): Promise<T> {
+    let timer: ReturnType<typeof setTimeout>;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Loading ${remote.displayName} timed out after ${this.config.timeout}ms`)),
+        this.config.timeout
+      );
+    });
+
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+
+  private state(name: string): WritableSignal<RemoteLoadState> {
+    let state = this.states.get(name);
+    if (!state) {
+      state = signal<RemoteLoadState>({ status: 'idle', attempt: 0 });
+      this.states.set(name, state);
+    }
+    return state;
+  }
+}
@@ -0,0 +1,71 @@
+import { InjectionToken } from '@angular/core';
+import { getManifest, Manifest, RemoteConfig } from '@angular-architects/module-federation';
+
+/**
+ * Entry of `mf.manifest.json`: where to load a remote from and how the shell routes to it
+ */
+export type RemoteManifestEntry = RemoteConfig & {
+  exposedModule: string;  // Module exposed by the remote, e.g. './ComponentOne'
+  componentName: string;  // Component exported by the exposed module
+  routePath: string;      // Route path of the remote in the shell, without leading slash
+  displayName: string;    // Label of the remote in the navigation
+  navOrder: number;       // Position in the navigation, lowest first
+  config?: Record<string, unknown>; // Settings the remote reads from its context
+  roles?: string[];       // Roles of which the user needs one to access the remote, anyone when omitted
+};
+
+// Content of `mf.manifest.json`, keyed by remote name
+export type RemoteManifest = Manifest<RemoteManifestEntry>;
+
+/**
+ * A remote declared in the manifest, with its name
+ */
+export interface RemoteDefinition extends RemoteManifestEntry {
+  name: string;
+}
+
+/**
+ * Remotes declared in the manifest loaded by `main.ts`, in navigation order
+ */
+export const REMOTE_DEFINITIONS = new InjectionToken<RemoteDefinition[]>('REMOTE_DEFINITIONS', {
+  providedIn: 'root',
+  factory: () => readRemoteDefinitions(getManifest<RemoteManifest>()),
+});
+
+const REQUIRED_STRING_FIELDS = ['remoteEntry', 'exposedModule', 'componentName', 'routePath', 'displayName'] as const;
+
+/**
+ * Reads the remote definitions from a manifest, skipping incomplete entries
+ * @param manifest The loaded manifest, undefined when it could not be loaded
+ * @returns The valid remotes, sorted by navigation order
+ */
+export function readRemoteDefinitions(manifest: RemoteManifest | undefined): RemoteDefinition[] {
+  if (!manifest) {
+    console.warn('No remote manifest loaded, the shell starts without remotes');
+    return [];
+  }
+
+  return Object.entries(manifest)
+    .filter(([name, entry]) => {
+      const missing: string[] = REQUIRED_STRING_FIELDS.filter(field => typeof entry[field] !== 'string' || !entry[field]);
+      if (typeof entry.navOrder !== 'number') {
+        missing.push('navOrder');
+      }
+      if (entry.config !== undefined && (typeof entry.config !== 'object' || entry.config === null || Array.isArray(entry.config))) {
+        console.warn(`Ignoring remote ${name}: config must be an object in the manifest`);
+        return false;
+      }
+      if (entry.roles !== undefined && (!Array.isArray(entry.roles) || entry.roles.some(role => typeof role !== 'string'))) {
+        console.warn(`Ignoring remote ${name}: roles must be an array of strings in the manifest`);
+        return false;
+      }
+
+      if (missing.length > 0) {
+        console.warn(`Ignoring remote ${name}: missing ${missing.join(', ')} in the manifest`);
+        return false;
+      }
+      return true;
+    })
+    .map(([name, entry]) => ({ ...entry, name }))
+    .sort((a, b) => a.navOrder - b.navOrder);
+}
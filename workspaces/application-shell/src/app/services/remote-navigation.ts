@@ -0,0 +1,134 @@
+import { DestroyRef, inject, Injectable, Provider, signal } from '@angular/core';
+import { NavigationEnd, Router, UrlTree } from '@angular/router';
+import {
+  buildMicroFrontendPath,
+  MicroFrontendDestroyRef,
+  MicroFrontendLocation,
+  MicroFrontendLocationListener,
+  MicroFrontendNavigation,
+  MicroFrontendNavigationTarget,
+} from '@angular-microfrontends-poc/shared-types';
+import { REMOTE_DEFINITIONS } from './remote-manifest';
+
+/**
+ * Navigates the shell on behalf of micro frontends and tells them where the shell is
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class RemoteNavigationService {
+  private readonly router = inject(Router);
+  private readonly remoteDefinitions = inject(REMOTE_DEFINITIONS);
+
+  // Listeners notified after every navigation
+  private readonly listeners = new Set<MicroFrontendLocationListener>();
+
+  // Location of the last completed navigation
+  private readonly currentLocation = signal<MicroFrontendLocation>(this.readLocation(this.router.url));
+  readonly location = this.currentLocation.asReadonly();
+
+  constructor() {
+    const subscription = this.router.events.subscribe((event) => {
+      if (event instanceof NavigationEnd) {
+        const location = this.readLocation(event.urlAfterRedirects);
+        this.currentLocation.set(location);
+        this.listeners.forEach((listener) => listener(location));
+      }
+    });
+    inject(DestroyRef).onDestroy(() => subscription.unsubscribe());
+  }
+
+  /**
+   * Navigates to the route of a remote
+   * @param target The remote, path and parameters to open
+   * @returns Whether the navigation succeeded
+   */
+  async navigate(target: MicroFrontendNavigationTarget): Promise<boolean> {
+    const remote = this.remoteDefinitions.find(({ name }) => name === target.remote);
+    if (!remote) {
+      console.warn(`Cannot navigate to ${target.remote}: the remote is not in the manifest`);
+      return false;
+    }
+
+    let path: string;
+    try {
+      path = buildMicroFrontendPath(target.path ?? '', target.params);
+    } catch (error) {
+      console.warn(`Cannot navigate to ${target.remote}:`, error instanceof Error ? error.message : error);
+      return false;
+    }
+
+    const segments = ['/', remote.routePath, ...path.split('/').filter(Boolean).map(decodeURIComponent)];
+    try {
+      return await this.router.navigate(segments, { queryParams: target.queryParams, replaceUrl: target.replaceUrl });
+    } catch (error) {
+      console.warn(`Navigation to ${target.remote} failed:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Issues the navigation handle of a micro frontend
+   * @param owner The name of the micro frontend
+   * @param lifetime Removes the handle's listeners when destroyed, such as the mount's injector
+   * @returns The navigation handle acting on behalf of the micro frontend
+   */
+  issueNavigation(owner: string, lifetime?: MicroFrontendDestroyRef): MicroFrontendNavigation {
+    return {
+      location: this.location,
+
+      navigate: (target) => this.navigate(target),
+
+      navigateWithin: (path, options = {}) => this.navigate({ ...options, remote: owner, path }),
+
+      onLocationChange: (listener, options = {}) => {
+        this.listeners.add(listener);
+
+        const unsubscribe = () => {
+          this.listeners.delete(listener);
+        };
+        options.destroyRef?.onDestroy(unsubscribe);
+        lifetime?.onDestroy(unsubscribe);
+
+        return { unsubscribe };
+      },
+    };
+  }
+
+  /**
+   * Works out which remote a URL belongs to and the path below its route
+   * @param url The URL of the shell
+   * @returns The location of the URL
+   */
+  private readLocation(url: string): MicroFrontendLocation {
+    const tree: UrlTree = this.router.parseUrl(url);
+    const segments = tree.root.children['primary']?.segments.map(({ path }) => path) ?? [];
+
+    for (const remote of this.remoteDefinitions) {
+      const routeSegments = remote.routePath.split('/').filter(Boolean);
+      if (routeSegments.every((segment, index) => segments[index] === segment)) {
+        return {
+          url,
+          remote: remote.name,
+          path: segments.slice(routeSegments.length).map(encodeURIComponent).join('/'),
+          queryParams: { ...tree.queryParams },
+        };
+      }
+    }
+
+    return { url, remote: null, path: '', queryParams: { ...tree.queryParams } };
+  }
+}
+
+/**
+ * Provides the navigation handle of a micro frontend to the injector it is mounted with
+ * @param name The name the shell assigns to the micro frontend
+ * @returns The provider to add to the injector hosting the micro frontend
+ */
+export function provideMicroFrontendNavigation(name: string): Provider {
+  return {
+    provide: MicroFrontendNavigation,
+    // The handle's listeners live as long as the injector providing it
+    useFactory: () => inject(RemoteNavigationService).issueNavigation(name, inject(DestroyRef)),
+  };
+}
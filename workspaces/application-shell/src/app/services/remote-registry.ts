@@ -0,0 +1,125 @@
+import { inject, Injectable, signal } from '@angular/core';
+import { loadRemoteModule } from '@angular-architects/module-federation';
+import {
+  isCompatibleApiVersion,
+  MICRO_FRONTEND_METADATA_MODULE,
+  MicroFrontendRemoteMetadata,
+} from '@angular-microfrontends-poc/shared-types';
+import packageJson from '../../../package.json';
+import { REMOTE_DEFINITIONS, RemoteDefinition } from './remote-manifest';
+
+// Reachability of a remote's entry point
+export type RemoteReachability = 'unknown' | 'checking' | 'up' | 'down';
+
+/**
+ * What the registry knows about a remote of the manifest
+ */
+export interface RemoteHealth {
+  name: string;
+  displayName: string;
+  remoteEntry: string;
+  reachability: RemoteReachability;
+  metadata?: MicroFrontendRemoteMetadata; // Metadata exposed by the remote, once collected
+  compatible?: boolean;                   // Whether the remote's contract version matches the shell's
+  issues: string[];                       // Problems found by the last probe
+  latency?: number;                       // Milliseconds the remote entry took to answer
+  checkedAt?: number;                     // When the remote was last probed
+}
+
+/**
+ * Probes the remotes of the manifest and collects the version and metadata they expose
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class RemoteRegistryService {
+  private readonly remoteDefinitions = inject(REMOTE_DEFINITIONS);
+
+  // Version of the shared-types contract the shell was built against
+  readonly apiVersion = packageJson.dependencies['@angular-microfrontends-poc/shared-types'];
+
+  // Health of every remote, in navigation order
+  readonly remotes = signal<RemoteHealth[]>(
+    this.remoteDefinitions.map(remote => ({
+      name: remote.name,
+      displayName: remote.displayName,
+      remoteEntry: remote.remoteEntry,
+      reachability: 'unknown',
+      issues: [],
+    }))
+  );
+
+  /**
+   * Probes every remote of the manifest
+   * @returns A promise resolved once every probe completed
+   */
+  async refresh(): Promise<void> {
+    await Promise.all(this.remoteDefinitions.map(remote => this.probe(remote)));
+  }
+
+  /**
+   * Checks that a remote's entry point answers, then collects its metadata
+   * @param remote The remote definition
+   */
+  async probe(remote: RemoteDefinition): Promise<void> {
+    this.update(remote.name, { reachability: 'checking' });
+
+    const startedAt = performance.now();
+    try {
+      const response = await fetch(remote.remoteEntry, { method: 'HEAD', cache: 'no-store' });
+      if (!response.ok) {
+        throw new Error(`${remote.remoteEntry} answered ${response.status} ${response.statusText}`);
+      }
+    } catch (error) {
+      this.update(remote.name, {
+        reachability: 'down',
+        compatible: undefined,
+        issues: [error instanceof Error ? error.message : String(error)],
+        latency: undefined,
+        checkedAt: Date.now(),
+      });
+      return;
+    }
+    const latency = Math.round(performance.now() - startedAt);
+
+    const issues: string[] = [];
+    const metadata = await this.collectMetadata(remote, issues);
+    const compatible = metadata ? isCompatibleApiVersion(this.apiVersion, metadata.apiVersion) : undefined;
+
+    if (metadata && metadata.name !== remote.name) {
+      issues.push(`Remote reports the name ${metadata.name}, the manifest calls it ${remote.name}`);
+    }
+    if (compatible === false) {
+      issues.push(`Built against contract ${metadata?.apiVersion}, the shell provides ${this.apiVersion}`);
+    }
+
+    this.update(remote.name, { reachability: 'up', metadata, compatible, issues, latency, checkedAt: Date.now() });
+  }
+
+  private async collectMetadata(
+    remote: RemoteDefinition,
+    issues: string[]
+  ): Promise<MicroFrontendRemoteMetadata | undefined> {
+    try {
+      const metadataModule = await loadRemoteModule({
+        type: 'manifest',
+        remoteName: remote.name,
+        exposedModule: MICRO_FRONTEND_METADATA_MODULE,
+      });
+
+      const metadata = metadataModule.metadata as MicroFrontendRemoteMetadata | undefined;
+      if (typeof metadata?.version !== 'string' || typeof metadata.apiVersion !== 'string') {
+        issues.push(`${MICRO_FRONTEND_METADATA_MODULE} does not export valid metadata`);
+        return undefined;
+      }
+      return metadata;
+    } catch (error) {
+      issues.push(`No metadata exposed: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  }
+
+  private update(name: string, changes: Partial<RemoteHealth>): void {
+    this.remotes.update(remotes => remotes.map(remote => (remote.name === name ? { ...remote, ...changes } : remote)));
+  }
+}
@@ -0,0 +1,78 @@
+import {
+  createEnvironmentInjector,
+  EnvironmentInjector,
+  EnvironmentProviders,
+  InjectionToken,
+  makeEnvironmentProviders,
+  Provider
+} from '@angular/core';
+import { MicroFrontendRemoteContext } from '@angular-microfrontends-poc/shared-types';
+import { provideMicroFrontendApi } from './mf-communication.service';
+import { RemoteDefinition } from './remote-manifest';
+import { provideMicroFrontendNavigation } from './remote-navigation';
+import { provideMicroFrontendSession } from './session';
+import { provideMicroFrontendStore } from './shared-state';
+
+/**
+ * Providers the shell adds to the injector of every mount of a remote
+ */
+export interface RemoteScopeProviders {
+  remote: string;                             // Name of the remote in the manifest
+  providers: (Provider | EnvironmentProviders)[];
+}
+
+/**
+ * Providers registered for remotes through `provideRemoteScope`
+ */
+export const REMOTE_SCOPE_PROVIDERS = new InjectionToken<RemoteScopeProviders[]>('REMOTE_SCOPE_PROVIDERS', {
+  providedIn: 'root',
+  factory: () => [],
+});
+
+/**
+ * Adds providers to the injector of every mount of a remote, so each mount gets its own instances
+ * @param remote The name of the remote in the manifest
+ * @param providers The providers to add
+ * @returns The providers to add to the application config
+ */
+export function provideRemoteScope(remote: string, providers: (Provider | EnvironmentProviders)[]): EnvironmentProviders {
+  return makeEnvironmentProviders([
+    { provide: REMOTE_SCOPE_PROVIDERS, multi: true, useValue: { remote, providers } },
+  ]);
+}
+
+/**
+ * Creates the environment injector a remote is mounted with. It provides the remote's API, store, navigation
+ * and session handles, its context and the providers registered for it; destroying it releases the API handle's
+ * subscriptions and request handlers and destroys the services it created.
+ * @param remote The remote definition
+ * @param parent The injector of the view hosting the remote
+ * @returns The injector to create the remote's component with
+ */
+export function createRemoteInjector(remote: RemoteDefinition, parent: EnvironmentInjector): EnvironmentInjector {
+  const context: MicroFrontendRemoteContext = Object.freeze({
+    name: remote.name,
+    displayName: remote.displayName,
+    routePath: remote.routePath,
+    mountId: crypto.randomUUID(),
+    config: Object.freeze({ ...remote.config }),
+  });
+
+  const scoped = parent
+    .get(REMOTE_SCOPE_PROVIDERS)
+    .filter(registration => registration.remote === remote.name)
+    .flatMap(registration => registration.providers);
+
+  return createEnvironmentInjector(
+    [
+      provideMicroFrontendApi(remote.name),
+      provideMicroFrontendStore(remote.name),
+      provideMicroFrontendNavigation(remote.name),
+      provideMicroFrontendSession(),
+      { provide: MicroFrontendRemoteContext, useValue: context },
+      ...scoped
+    ],
+    parent,
+    `${remote.name} (${context.mountId})`
+  );
+}
@@ -0,0 +1,205 @@
+import {
+  computed,
+  DestroyRef,
+  EnvironmentProviders,
+  inject,
+  Injectable,
+  InjectionToken,
+  makeEnvironmentProviders,
+  provideAppInitializer,
+  Provider,
+  signal,
+} from '@angular/core';
+import { CanMatchFn, Router } from '@angular/router';
+import { MicroFrontendSession, MicroFrontendSessionContext } from '@angular-microfrontends-poc/shared-types';
+import { MicroFrontendsCommunicationService } from './mf-communication.service';
+import { RemoteDefinition } from './remote-manifest';
+import { SharedStateService } from './shared-state';
+
+// Longest delay setTimeout accepts
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Signs users in and out on behalf of the shell, e.g. against an OpenID Connect provider.
+ * Tokens stay with the provider; the shell only shares when they expire.
+ */
+export interface AuthProvider {
+  // Session kept from an earlier visit, null when there is none
+  restoreSession(): Promise<MicroFrontendSession | null>;
+
+  // Signs a user in; the login hint names the account to use, when the provider supports it
+  signIn(loginHint?: string): Promise<MicroFrontendSession>;
+
+  signOut(): Promise<void>;
+}
+
+/**
+ * Auth provider of the shell, null when nobody can sign in
+ */
+export const AUTH_PROVIDER = new InjectionToken<AuthProvider | null>('AUTH_PROVIDER', {
+  providedIn: 'root',
+  factory: () => null,
+});
+
+/**
+ * Signs users in through an auth provider and restores their session before the app starts
+ * @param provider The auth provider, such as a `FakeAuthProvider` during development
+ * @returns The providers to add to the application config
+ */
+export function provideAuth(provider: AuthProvider): EnvironmentProviders {
+  return makeEnvironmentProviders([
+    { provide: AUTH_PROVIDER, useValue: provider },
+    provideAppInitializer(() => inject(SessionService).restore()),
+  ]);
+}
+
+/**
+ * Owns the session of the signed-in user and shares it, read-only, with micro frontends
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class SessionService {
+  private readonly provider = inject(AUTH_PROVIDER);
+  private readonly router = inject(Router);
+  private readonly communicationService = inject(MicroFrontendsCommunicationService);
+
+  // The shell owns the currentUser slice of the shared state
+  private readonly store = inject(SharedStateService).issueStore('application-shell');
+
+  // Session of the signed-in user, null when signed out
+  private readonly currentSession = signal<MicroFrontendSession | null>(null);
+  readonly session = this.currentSession.asReadonly();
+
+  // Roles of the signed-in user, empty when signed out
+  readonly roles = computed(() => this.session()?.roles ?? []);
+
+  // Ends the session when its token expires
+  private expiryTimer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor() {
+    inject(DestroyRef).onDestroy(() => clearTimeout(this.expiryTimer));
+  }
+
+  /**
+   * Restores the session kept by the auth provider from an earlier visit
+   */
+  async restore(): Promise<void> {
+    if (!this.provider) {
+      return;
+    }
+
+    try {
+      this.start(await this.provider.restoreSession());
+    } catch (error) {
+      console.warn('Could not restore the session:', error);
+    }
+  }
+
+  /**
+   * Signs a user in through the auth provider
+   * @param loginHint The account to use, when the provider supports it
+   * @returns Whether the user is signed in
+   */
+  async signIn(loginHint?: string): Promise<boolean> {
+    if (!this.provider) {
+      console.warn('Cannot sign in: no auth provider is configured');
+      return false;
+    }
+
+    try {
+      this.start(await this.provider.signIn(loginHint));
+      return true;
+    } catch (error) {
+      console.warn('Sign-in failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Signs the user out; micro frontends see the session become null
+   */
+  async signOut(): Promise<void> {
+    try {
+      await this.provider?.signOut();
+    } finally {
+      this.start(null);
+    }
+  }
+
+  /**
+   * Checks whether the signed-in user may open a remote
+   * @param remote The remote definition, from the manifest or of an iframe remote
+   * @returns Whether the remote requires no role, or the user has one of its roles
+   */
+  canAccess(remote: Pick<RemoteDefinition, 'roles'>): boolean {
+    return !remote.roles?.length || remote.roles.some(role => this.roles().includes(role));
+  }
+
+  /**
+   * Issues the read-only view of the session given to micro frontends
+   * @returns The session context
+   */
+  issueSessionContext(): MicroFrontendSessionContext {
+    return {
+      session: this.session,
+      hasRole: (role) => this.roles().includes(role),
+    };
+  }
+
+  private start(session: MicroFrontendSession | null): void {
+    clearTimeout(this.expiryTimer);
+
+    const active = session && session.expiresAt > Date.now() ? session : null;
+    if (active) {
+      this.expiryTimer = setTimeout(
+        () => this.expire(active),
+        Math.min(active.expiresAt - Date.now(), MAX_TIMER_DELAY)
+      );
+    }
+    this.update(active);
+  }
+
+  private expire(session: MicroFrontendSession): void {
+    if (session.expiresAt > Date.now()) {
+      // The session outlives the longest timer, wait again
+      this.start(session);
+      return;
+    }
+
+    this.update(null);
+    this.communicationService.publishMessage('session.expired', { userId: session.user.id, expiredAt: session.expiresAt });
+  }
+
+  private update(session: MicroFrontendSession | null): void {
+    this.currentSession.set(session);
+
+    if (this.store.canWrite('currentUser')) {
+      this.store.set('currentUser', session ? { id: session.user.id, name: session.user.name } : null);
+    }
+
+    // Run the route guards again, so a remote the user can no longer access is left
+    if (this.router.navigated) {
+      this.router.navigateByUrl(this.router.url, { onSameUrlNavigation: 'reload' });
+    }
+  }
+}
+
+/**
+ * Lets a remote's route match only when the signed-in user may access the remote
+ */
+export const remoteAccessGuard: CanMatchFn = (route) => {
+  const remote = route.data?.['remote'] as RemoteDefinition | undefined;
+  return !remote || inject(SessionService).canAccess(remote);
+};
+
+/**
+ * Provides the read-only session to the injector a micro frontend is mounted with
+ * @returns The provider to add to the injector hosting the micro frontend
+ */
+export function provideMicroFrontendSession(): Provider {
+  return {
+    provide: MicroFrontendSessionContext,
+    useFactory: () => inject(SessionService).issueSessionContext(),
+  };
+}
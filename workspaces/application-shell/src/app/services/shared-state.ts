@@ -0,0 +1,191 @@
+import {
+  computed,
+  EnvironmentProviders,
+  inject,
+  Injectable,
+  InjectionToken,
+  makeEnvironmentProviders,
+  Provider,
+  signal,
+  WritableSignal
+} from '@angular/core';
+import {
+  MicroFrontendImmutable,
+  MicroFrontendStateSelector,
+  MicroFrontendStateSlice,
+  MicroFrontendStateStore,
+  MicroFrontendStateUpdateResult,
+  MicroFrontendStateValue,
+} from '@angular-microfrontends-poc/shared-types';
+
+/**
+ * Who may write a slice and the value it starts with
+ */
+export interface StateSliceConfig<K extends MicroFrontendStateSlice> {
+  owners: string | string[];             // Micro frontends allowed to write the slice, '*' for every one
+  initial: MicroFrontendStateValue<K>;   // Value of the slice until an owner writes it
+}
+
+/**
+ * Slices of the shared state, one entry per slice of the registry
+ */
+export type SharedStateConfig = {
+  [K in MicroFrontendStateSlice]: StateSliceConfig<K>;
+};
+
+/**
+ * Slices held by the shell's store, null when no shared state is provided
+ */
+export const SHARED_STATE = new InjectionToken<SharedStateConfig | null>('SHARED_STATE', {
+  providedIn: 'root',
+  factory: () => null,
+});
+
+/**
+ * Declares the slices of the shared state, their owners and initial values
+ * @param config The slices of the shared state
+ * @returns The providers to add to the application config
+ */
+export function provideSharedState(config: SharedStateConfig): EnvironmentProviders {
+  return makeEnvironmentProviders([{ provide: SHARED_STATE, useValue: config }]);
+}
+
+/**
+ * Holds the state shared with micro frontends, one signal per slice
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class SharedStateService {
+  private readonly config = inject(SHARED_STATE);
+
+  // Current value of every slice, frozen
+  private readonly slices = new Map<string, WritableSignal<unknown>>(
+    Object.entries(this.config ?? {}).map(([name, slice]) => [name, signal(freezeState(slice.initial))])
+  );
+
+  /**
+   * Issues the store handle of a micro frontend; writes through it are checked against the slice owners
+   * @param owner The name of the micro frontend
+   * @returns The store acting on behalf of the micro frontend
+   */
+  issueStore(owner: string): MicroFrontendStateStore {
+    const select = <K extends MicroFrontendStateSlice, R>(
+      slice: K,
+      projector?: (value: MicroFrontendImmutable<MicroFrontendStateValue<K>>) => R
+    ): MicroFrontendStateSelector<MicroFrontendImmutable<MicroFrontendStateValue<K>> | R> => {
+      const state = this.requireSlice(slice);
+      return projector ? computed(() => projector(state())) : state.asReadonly();
+    };
+
+    return {
+      select,
+
+      snapshot: (slice) => this.requireSlice(slice)(),
+
+      set: (slice, value) => this.write(owner, slice, () => value),
+
+      update: (slice, updater) => this.write(owner, slice, updater),
+
+      canWrite: (slice) => this.isOwner(owner, slice),
+    };
+  }
+
+  /**
+   * Replaces the value of a slice if the writer owns it
+   * @param owner The writing micro frontend
+   * @param slice The slice to write
+   * @param next Computes the new value from the current one
+   * @returns Whether the value was written
+   */
+  private write<K extends MicroFrontendStateSlice>(
+    owner: string,
+    slice: K,
+    next: (current: MicroFrontendImmutable<MicroFrontendStateValue<K>>) => MicroFrontendImmutable<MicroFrontendStateValue<K>>
+  ): MicroFrontendStateUpdateResult {
+    const state = this.findSlice(slice);
+    let result: MicroFrontendStateUpdateResult = { accepted: true };
+
+    if (!state) {
+      result = { accepted: false, code: 'UNKNOWN_SLICE', error: `The shared state has no slice '${slice}'` };
+    } else if (!this.isOwner(owner, slice)) {
+      result = { accepted: false, code: 'FORBIDDEN', error: `${owner} does not own the slice '${slice}'` };
+    } else {
+      state.set(freezeState(next(state())));
+    }
+
+    if (!result.accepted) {
+      console.warn(`Update of '${slice}' by ${owner} was refused:`, result.error);
+    }
+    return result;
+  }
+
+  private isOwner(owner: string, slice: string): boolean {
+    const owners = this.config?.[slice as MicroFrontendStateSlice]?.owners ?? [];
+    const names = Array.isArray(owners) ? owners : [owners];
+    return names.includes('*') || names.includes(owner);
+  }
+
+  /**
+   * Gets the signal holding a slice
+   * @param slice The slice
+   * @returns The signal, undefined when the shell holds no such slice
+   */
+  private findSlice<K extends MicroFrontendStateSlice>(
+    slice: K
+  ): WritableSignal<MicroFrontendImmutable<MicroFrontendStateValue<K>>> | undefined {
+    // Every signal is created from the config entry of its slice, whose type SharedStateConfig ties to the registry
+    return this.slices.get(slice) as WritableSignal<MicroFrontendImmutable<MicroFrontendStateValue<K>>> | undefined;
+  }
+
+  /**
+   * Gets the signal holding a slice a micro frontend reads
+   * @param slice The slice
+   * @returns The signal
+   * @throws When the shell holds no such slice, since reads have no result to report a refusal with
+   */
+  private requireSlice<K extends MicroFrontendStateSlice>(slice: K): WritableSignal<MicroFrontendImmutable<MicroFrontendStateValue<K>>> {
+    const state = this.findSlice(slice);
+    if (!state) {
+      throw new Error(
+        `The shared state has no slice '${slice}': declare it with provideSharedState in the shell's application config`
+      );
+    }
+    return state;
+  }
+}
+
+/**
+ * Copies the plain objects and arrays of a value and freezes the copy, so state can only change
+ * through the store and the value passed in stays the caller's to mutate
+ * @param value The value to store
+ * @returns A frozen copy of the value
+ */
+export function freezeState<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return Object.freeze(value.map(freezeState)) as T;
+  }
+  if (value !== null && typeof value === 'object' && isPlainObject(value)) {
+    return Object.freeze(
+      Object.fromEntries(Object.entries(value).map(([key, field]) => [key, freezeState(field)]))
+    ) as T;
+  }
+  return value;
+}
+
+function isPlainObject(value: object): boolean {
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Provides the store handle of a micro frontend to the injector it is mounted with
+ * @param name The name the shell assigns to the micro frontend
+ * @returns The provider to add to the injector hosting the micro frontend
+ */
+export function provideMicroFrontendStore(name: string): Provider {
+  return {
+    provide: MicroFrontendStateStore,
+    useFactory: () => inject(SharedStateService).issueStore(name),
+  };
+}
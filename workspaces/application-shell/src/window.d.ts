@@ -1,7 +0,0 @@
-import { CentralizedApi } from '@angular-microfrontends-poc/shared-types';
-
-declare global {
-  interface Window {
-    CentralizedAPI?: CentralizedApi;
-  }
-}
\ No newline at end of file
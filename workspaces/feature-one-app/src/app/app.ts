@@ -2,7 +2,14 @@ import { Component, computed, inject, signal } from '@angular/core';
 import { DatePipe } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { RouterOutlet } from '@angular/router';
-import { CommunicationService } from './services/communication-service';
+import {
+  matchMicroFrontendPath,
+  MicroFrontendMountable,
+  MicroFrontendNavigation,
+  MicroFrontendSessionContext,
+  MicroFrontendStateStore,
+} from '@angular-microfrontends-poc/shared-types';
+import { MicroFrontendClient, provideMicroFrontendClient } from '@angular-microfrontends-poc/shared-types/angular';
 import { environment } from '../environments/environment';
 
 @Component({
@@ -11,11 +18,48 @@ import { environment } from '../environments/environment';
   imports: [RouterOutlet, FormsModule, DatePipe],
   templateUrl: './app.html',
   styleUrl: './app.css',
+  providers: [provideMicroFrontendClient({ appName: environment.appName, shellName: environment.shellName })],
 })
-export class FeatureOneApp {
+export class FeatureOneApp implements MicroFrontendMountable<'feature-one-app'> {
   protected readonly title = signal('feature-one-app');
 
-  private readonly communicationService = inject(CommunicationService);
+  private readonly client = inject(MicroFrontendClient);
+
+  // How this app reaches the shell and the other remotes
+  protected readonly connection = this.client.connection;
+
+  // Shared state handle issued by the shell, null when running without the shell
+  protected readonly store = inject(MicroFrontendStateStore, { optional: true });
+
+  // Customer selected in the shared state, written by this app
+  protected readonly selectedCustomer = this.store?.select('selectedCustomer') ?? signal(null);
+
+  // Number of items in the shared cart
+  protected readonly cartQuantity =
+    this.store?.select('cart', cart => cart.items.reduce((total, item) => total + item.quantity, 0)) ?? signal(0);
+
+  // Name of the customer to select
+  protected readonly customerName = signal<string>('');
+
+  // Session shared by the shell, read-only; null when running without the shell
+  protected readonly sessionContext = inject(MicroFrontendSessionContext, { optional: true });
+  protected readonly session = computed(() => this.sessionContext?.session() ?? null);
+  // Latest 'session.expired' event published by the shell
+  protected readonly sessionExpired = this.client.latest('session.expired');
+  // Navigation handle issued by the shell, null when running without the shell
+  protected readonly navigation = inject(MicroFrontendNavigation, { optional: true });
+
+  // Item shown below this app's route, e.g. /one/details/42
+  protected readonly detailsId = computed(() => {
+    const location = this.navigation?.location();
+    if (location?.remote !== environment.appName) {
+      return undefined;
+    }
+    return matchMicroFrontendPath('details/:id', location.path)?.['id'];
+  });
+
+  // Item to open
+  protected readonly itemId = signal<string>('42');
 
   // Message to send to the shell
   protected readonly messageToSend = signal<string>('');
@@ -24,16 +68,12 @@ export class FeatureOneApp {
   protected readonly messageToFeatureTwo = signal<string>('Hello from Feature One!');
 
   // Access to all messages
-  protected readonly allMessages = this.communicationService.messages;
+  protected readonly allMessages = this.client.messages;
 
-  // Computed properties to get messages from specific sources
-  protected readonly messagesFromShell = computed(() =>
-    this.communicationService.getMessagesFrom(environment.shellName)
-  );
+  // Messages from specific sources
+  protected readonly messagesFromShell = this.client.messagesFrom(environment.shellName);
 
-  protected readonly messagesFromFeatureTwo = computed(() =>
-    this.communicationService.getMessagesFrom('feature-two-app')
-  );
+  protected readonly messagesFromFeatureTwo = this.client.messagesFrom('feature-two-app');
 
   // Computed value showing the communication status with shell
   protected readonly communicationStatus = computed(() => {
@@ -56,13 +96,37 @@ export class FeatureOneApp {
    * Sends a message to the application shell
    */
   sendMessageToShell(): void {
-    this.communicationService.sendMessageTo(this.messageToSend(), environment.shellName);
+    this.client.sendToShell('default', this.messageToSend());
+  }
+
+  /**
+   * Selects the customer named in the input for every micro frontend, or clears the selection
+   */
+  selectCustomer(): void {
+    const name = this.customerName().trim();
+    this.store?.set('selectedCustomer', name ? { id: crypto.randomUUID(), name } : null);
+  }
+
+  /**
+   * Opens the details of the item entered, as a deep link below this app's route
+   */
+  openDetails(): void {
+    this.navigation?.navigateWithin('details/:id', { params: { id: this.itemId() } });
+  }
+
+  /**
+   * Goes back to the root of this app's route
+   */
+  closeDetails(): void {
+    this.navigation?.navigateWithin('');
   }
 
   /**
    * Sends a message to feature-two-app
    */
   sendMessageToFeatureTwo(): void {
-    this.communicationService.sendMessageTo(this.messageToFeatureTwo(), 'feature-two-app');
+    this.client.sendMessage('feature-two-app', 'default', this.messageToFeatureTwo(), {
+      delivery: 'replay-all-pending'
+    });
   }
 }
@@ -1,5 +1,6 @@
 export const environment = {
     appName: 'feature-one-app',
     shellName: 'application-shell',
+    shellOrigins: ['http://localhost:4200'],
     production: false,
 };
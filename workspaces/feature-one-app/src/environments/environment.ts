@@ -1,5 +1,9 @@
+// Set from the SHELL_ORIGINS variable by webpack.prod.config.js
+declare const SHELL_ORIGINS: string[];
+
 export const environment = {
     appName: 'feature-one-app',
     shellName: 'application-shell',
+    shellOrigins: SHELL_ORIGINS,
     production: true,
 };
@@ -0,0 +1,44 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+import {
+  MicroFrontendContract,
+  mountMicroFrontend,
+  MountedMicroFrontend,
+  verifyConsumer,
+  verifyProvider,
+} from '@angular-microfrontends-poc/shared-types/testing';
+import remoteContract from '../../mf.contract.json';
+import { FeatureTwoApp } from './app';
+
+const contract = remoteContract as MicroFrontendContract;
+
+describe('FeatureTwoApp', () => {
+  let mounted: MountedMicroFrontend<FeatureTwoApp>;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideZonelessChangeDetection()],
+    });
+    mounted = TestBed.runInInjectionContext(() =>
+      mountMicroFrontend(FeatureTwoApp, {
+        name: contract.name,
+        providers: [provideRouter([])],
+      })
+    );
+  });
+
+  afterEach(() => mounted.destroy());
+
+  it('should receive the messages and answer the requests of its contract', async () => {
+    expect(await verifyConsumer(contract, mounted.bus)).toEqual([]);
+  });
+
+  it('should send only the messages declared in its contract', () => {
+    mounted.componentRef.instance.sendMessageToShell();
+    mounted.componentRef.instance.sendMessageToFeatureOne();
+
+    expect(mounted.sent().length).toBeGreaterThan(0);
+    expect(verifyProvider(contract, mounted.sent())).toEqual([]);
+  });
+});
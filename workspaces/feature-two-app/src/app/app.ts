@@ -1,20 +1,59 @@
-import { Component, computed, inject, signal } from '@angular/core';
+import { Component, computed, inject, input, output, signal } from '@angular/core';
 import { DatePipe } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { RouterOutlet } from '@angular/router';
-import { CommunicationService } from './services/communication-service';
+import {
+  MicroFrontendMountable,
+  MicroFrontendNavigation,
+  MicroFrontendSessionContext,
+  MicroFrontendStateStore,
+} from '@angular-microfrontends-poc/shared-types';
+import { MicroFrontendClient, provideMicroFrontendClient } from '@angular-microfrontends-poc/shared-types/angular';
+import { environment } from '../environments/environment';
 
 @Component({
   selector: 'app-two',
   standalone: true,
   imports: [RouterOutlet, FormsModule, DatePipe],
   templateUrl: './app.html',
-  styleUrl: './app.css'
+  styleUrl: './app.css',
+  providers: [provideMicroFrontendClient({ appName: environment.appName, shellName: environment.shellName })]
 })
-export class FeatureTwoApp {
+export class FeatureTwoApp implements MicroFrontendMountable<'feature-two-app'> {
   protected readonly title = signal('feature-two-app');
   
-  private readonly communicationService = inject(CommunicationService);
+  // Business context set by the shell when it embeds this app
+  readonly contextId = input<string>();
+  
+  // Emits the text of every message this app sends
+  readonly messageSent = output<string>();
+  
+  private readonly client = inject(MicroFrontendClient);
+  
+  // How this app reaches the shell and the other remotes
+  protected readonly connection = this.client.connection;
+  
+  // Shared state handle issued by the shell, null when running without the shell
+  protected readonly store = inject(MicroFrontendStateStore, { optional: true });
+  
+  // Name of the customer selected by feature-one-app
+  protected readonly selectedCustomer = this.store?.select('selectedCustomer', customer => customer?.name) ?? signal(undefined);
+  
+  // Items in the shared cart
+  protected readonly cartItems = this.store?.select('cart', cart => cart.items) ?? signal([]);
+  
+  // Session shared by the shell, read-only; null when running without the shell
+  protected readonly sessionContext = inject(MicroFrontendSessionContext, { optional: true });
+  protected readonly session = computed(() => this.sessionContext?.session() ?? null);
+  
+  // Latest 'session.expired' event published by the shell
+  protected readonly sessionExpired = this.client.latest('session.expired');
+  
+  // Navigation handle issued by the shell, null when running without the shell
+  protected readonly navigation = inject(MicroFrontendNavigation, { optional: true });
+  
+  // Item to open in feature-one-app
+  protected readonly itemId = signal<string>('42');
   
   // Message to send to the shell
   protected readonly messageToSend = signal<string>('Hello from Feature Two!');
@@ -23,16 +62,12 @@ export class FeatureTwoApp {
   protected readonly messageToFeatureOne = signal<string>('Hello from Feature Two!');
   
   // Access to all messages
-  protected readonly allMessages = this.communicationService.messages;
+  protected readonly allMessages = this.client.messages;
   
-  // Computed properties to get messages from specific sources
-  protected readonly messagesFromShell = computed(() => 
-    this.communicationService.getMessagesFrom('application-shell')
-  );
+  // Messages from specific sources
+  protected readonly messagesFromShell = this.client.messagesFrom(environment.shellName);
   
-  protected readonly messagesFromFeatureOne = computed(() => 
-    this.communicationService.getMessagesFrom('feature-one-app')
-  );
+  protected readonly messagesFromFeatureOne = this.client.messagesFrom('feature-one-app');
   
   // Computed value showing the communication status with shell
   protected readonly communicationStatus = computed(() => {
@@ -58,13 +93,39 @@ export class FeatureTwoApp {
    * Sends a message to the application shell
    */
   sendMessageToShell(): void {
-    this.communicationService.sendMessageTo(this.messageToSend(), 'application-shell');
+    this.client.sendToShell('default', this.messageToSend());
+    this.messageSent.emit(this.messageToSend());
+  }
+  
+  /**
+   * Adds one unit of an article to the shared cart
+   * @param sku The article to add
+   */
+  addToCart(sku: string): void {
+    this.store?.update('cart', cart => {
+      const existing = cart.items.find(item => item.sku === sku);
+      return {
+        items: existing
+          ? cart.items.map(item => (item === existing ? { ...item, quantity: item.quantity + 1 } : item))
+          : [...cart.items, { sku, quantity: 1 }]
+      };
+    });
+  }
+  
+  /**
+   * Opens the details of an item in feature-one-app
+   */
+  openInFeatureOne(): void {
+    this.navigation?.navigate({ remote: 'feature-one-app', path: 'details/:id', params: { id: this.itemId() } });
   }
   
   /**
    * Sends a message to feature-one-app
    */
   sendMessageToFeatureOne(): void {
-    this.communicationService.sendMessageTo(this.messageToFeatureOne(), 'feature-one-app');
+    this.client.sendMessage('feature-one-app', 'default', this.messageToFeatureOne(), {
+      delivery: 'replay-all-pending'
+    });
+    this.messageSent.emit(this.messageToFeatureOne());
   }
 }
@@ -1,6 +1,54 @@
+import { Provider } from '@angular/core';
 import { bootstrapApplication } from '@angular/platform-browser';
+import { connectToBridgeHost, InMemoryMicroFrontendBus, MicroFrontendApi } from '@angular-microfrontends-poc/shared-types';
+import { attachSimulationPanel } from '@angular-microfrontends-poc/shared-types/angular';
 import { appConfig } from './app/app.config';
 import { FeatureTwoApp } from './app/app';
+import { environment } from './environments/environment';
 
-bootstrapApplication(FeatureTwoApp, appConfig)
+// Whether the app runs on its own, without a shell framing it
+const standalone = window.parent === window;
+
+/**
+ * Inside an iframe the shell's window is out of reach, so the communication API
+ * is bridged over postMessage and provided to the app before it starts
+ */
+async function connectCommunication(): Promise<Provider[]> {
+  if (standalone) {
+    return provideStandaloneHost();
+  }
+
+  const api = await connectToBridgeHost({ allowedOrigins: environment.shellOrigins });
+  return [{ provide: MicroFrontendApi, useValue: api }];
+}
+
+/**
+ * Without a shell, the app talks to an in-memory bus standing in for it, so it can be developed on its own
+ */
+function provideStandaloneHost(): Provider[] {
+  const bus = new InMemoryMicroFrontendBus();
+  console.info(`${environment.appName} runs standalone: messages go through an in-memory bus`);
+
+  return [
+    { provide: InMemoryMicroFrontendBus, useValue: bus },
+    { provide: MicroFrontendApi, useValue: bus.issueApi(environment.appName) },
+  ];
+}
+
+connectCommunication()
+  .catch((err): Provider[] => {
+    console.warn('Running without the shell communication API:', err);
+    return [];
+  })
+  .then((providers) =>
+    bootstrapApplication(FeatureTwoApp, { ...appConfig, providers: [...appConfig.providers, ...providers] })
+  )
+  .then((appRef) => {
+    if (standalone && !environment.production) {
+      // The panel simulates the shell and the other remote next to the app
+      appRef.injector.runInContext(() =>
+        attachSimulationPanel({ appName: environment.appName, senders: [environment.shellName, 'feature-one-app'] })
+      );
+    }
+  })
   .catch((err) => console.error(err));
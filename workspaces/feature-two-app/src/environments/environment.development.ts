@@ -1,5 +1,6 @@
 export const environment = {
     appName: 'feature-two-app',
     shellName: 'application-shell',
+    shellOrigins: ['http://localhost:4200'],
     production: false,
 };
\ No newline at end of file
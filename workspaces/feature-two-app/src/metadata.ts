@@ -0,0 +1,12 @@
+import { MicroFrontendRemoteMetadata } from '@angular-microfrontends-poc/shared-types';
+import packageJson from '../package.json';
+import { environment } from './environments/environment';
+
+/**
+ * Metadata collected by the shell's remote registry, exposed as './Metadata'
+ */
+export const metadata: MicroFrontendRemoteMetadata = {
+  name: environment.appName,
+  version: packageJson.version,
+  apiVersion: packageJson.dependencies['@angular-microfrontends-poc/shared-types'],
+};
@@ -9,6 +9,7 @@ module.exports = withModuleFederationPlugin({
   exposes: {
     // Update this whole line (both, left and right part):
     './ComponentTwo': './src/app/app.ts',
+    './Metadata': './src/metadata.ts',
   },
 
   shared: {
@@ -1 +1,18 @@
-module.exports = require('./webpack.config');
+const { DefinePlugin } = require('webpack');
+const config = require('./webpack.config');
+
+// Origins of the deployed shell, the only ones allowed to bridge the app when framed,
+// e.g. SHELL_ORIGINS=https://shell.acme.org,https://shell-staging.acme.org
+const shellOrigins = (process.env.SHELL_ORIGINS ?? '')
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+
+if (shellOrigins.length === 0) {
+  throw new Error('Set SHELL_ORIGINS to the comma-separated origins of the deployed shell to build for production');
+}
+
+module.exports = {
+  ...config,
+  plugins: [...config.plugins, new DefinePlugin({ SHELL_ORIGINS: JSON.stringify(shellOrigins) })],
+};
@@ -0,0 +1,47 @@
+/**
+ * Checks the contracts of micro frontends against each other, without running them
+ *
+ * Usage: npm run verify-contracts -- [contract files...]
+ * Without files, checks the mf.contract.json of every workspace next to this package.
+ * Exits with 1 when the contracts do not agree, so CI fails.
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { MicroFrontendContract } from '../src/testing/contract.types';
+import { verifyContracts } from '../src/testing/contract-verification';
+
+const CONTRACT_FILE = 'mf.contract.json';
+
+/**
+ * Finds the contract files of the workspaces next to this package
+ */
+function findWorkspaceContracts(): string[] {
+  const workspaces = resolve(__dirname, '../..');
+  return readdirSync(workspaces, { withFileTypes: true })
+    .filter(entry => entry.isDirectory())
+    .map(entry => join(workspaces, entry.name, CONTRACT_FILE))
+    .filter(file => existsSync(file));
+}
+
+/**
+ * Reads a contract file, failing on files that are not contracts
+ */
+function readContract(file: string): MicroFrontendContract {
+  const contract = JSON.parse(readFileSync(file, 'utf8')) as Partial<MicroFrontendContract>;
+  if (typeof contract.name !== 'string') {
+    throw new Error(`${file} is not a contract: it has no name`);
+  }
+  return contract as MicroFrontendContract;
+}
+
+const files = process.argv.length > 2 ? process.argv.slice(2) : findWorkspaceContracts();
+const contracts = files.map(readContract);
+const problems = verifyContracts(contracts);
+
+console.log(`Checked the contracts of ${contracts.map(({ name }) => name).join(', ')}`);
+if (problems.length > 0) {
+  problems.forEach(problem => console.error(`  - ${problem}`));
+  process.exit(1);
+}
+console.log('The contracts agree');
@@ -0,0 +1,6 @@
+/**
+ * Entry point of the Angular client, imported from '@angular-microfrontends-poc/shared-types/angular'.
+ * The main entry point stays free of Angular, so it can be used without it.
+ */
+export * from './micro-frontend-client';
+export * from './simulation-panel';
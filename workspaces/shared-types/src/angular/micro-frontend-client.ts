@@ -0,0 +1,253 @@
+/**
+ * Angular client of the communication API
+ *
+ * Every remote needs the same plumbing around the API handle it is issued: a
+ * reactive list of the messages it received, selectors over that list, send
+ * helpers reporting rejections, and answering pings. A remote gets all of it by
+ * adding `provideMicroFrontendClient({ appName })` to its root component.
+ */
+
+import { computed, DestroyRef, inject, Provider, Signal, signal } from '@angular/core';
+import {
+  MicroFrontendApi,
+  MicroFrontendMessageListener,
+  MicroFrontendSendOptions,
+  MicroFrontendSubscribeOptions,
+  MicroFrontendSubscription,
+} from '../micro-frontend-api.types';
+import {
+  MicroFrontendMessagePayload,
+  MicroFrontendMessageType,
+  TypedMicroFrontendMessage,
+} from '../message-registry.types';
+import {
+  MicroFrontendRequestHandler,
+  MicroFrontendRequestOptions,
+  MicroFrontendRequestPayload,
+  MicroFrontendRequestType,
+  MicroFrontendResponsePayload,
+} from '../message-request.types';
+import { MicroFrontendSendResult } from '../message-validation.types';
+import { MicroFrontendRemoteContext } from '../remote-context.types';
+import { InMemoryMicroFrontendBus } from '../in-memory-bus';
+
+// How a client reaches the other micro frontends
+export type MicroFrontendConnectionState =
+  | 'connected'     // Through the API handle issued by the shell, directly or over the postMessage bridge
+  | 'standalone'    // Through an in-memory bus, the app running without the shell
+  | 'disconnected'; // Not at all: no API handle was provided, or the client was destroyed
+
+// Most recent messages kept by a client, the ones its selectors read from
+const CLIENT_MESSAGE_LIMIT = 500;
+
+// Options of a client
+export interface MicroFrontendClientOptions {
+  appName: string;       // Name of the micro frontend, unless the shell assigns another one when mounting it
+  shellName?: string;    // Name of the shell, 'application-shell' when omitted
+  answerPings?: boolean; // Whether to answer 'ping' requests, true when omitted
+}
+
+/**
+ * Injection token of the client provided by `provideMicroFrontendClient`.
+ * Like `MicroFrontendApi`, the class is merged with the interface below.
+ */
+export abstract class MicroFrontendClient {}
+
+// Client of the communication API, for the components of a micro frontend
+export interface MicroFrontendClient {
+  // Name of this micro frontend
+  readonly appName: string;
+
+  // Name of the shell
+  readonly shellName: string;
+
+  // How this micro frontend reaches the others
+  readonly connection: Signal<MicroFrontendConnectionState>;
+
+  // Latest messages delivered to this micro frontend, at most 500, oldest first
+  readonly messages: Signal<TypedMicroFrontendMessage[]>;
+
+  // Messages delivered from a specific micro frontend
+  messagesFrom(source: string): Signal<TypedMicroFrontendMessage[]>;
+
+  // Latest message delivered of a specific type
+  latest<K extends MicroFrontendMessageType>(type: K): Signal<TypedMicroFrontendMessage<K> | undefined>;
+
+  // Send a message to another micro frontend; rejections are logged
+  sendMessage<K extends MicroFrontendMessageType>(
+    to: string,
+    type: K,
+    payload: MicroFrontendMessagePayload<K>,
+    options?: MicroFrontendSendOptions
+  ): boolean;
+
+  // Send a message to the shell; rejections are logged
+  sendToShell<K extends MicroFrontendMessageType>(
+    type: K,
+    payload: MicroFrontendMessagePayload<K>,
+    options?: MicroFrontendSendOptions
+  ): boolean;
+
+  // Broadcast a message on a topic to every other micro frontend; rejections are logged
+  publish<K extends MicroFrontendMessageType>(topic: K, payload: MicroFrontendMessagePayload<K>): boolean;
+
+  // Receive messages whose type matches a topic pattern; ends with the client unless unsubscribed before
+  subscribe(
+    pattern: string,
+    listener: MicroFrontendMessageListener,
+    options?: MicroFrontendSubscribeOptions
+  ): MicroFrontendSubscription;
+
+  // Send a request to another micro frontend and wait for its response
+  request<K extends MicroFrontendRequestType>(
+    to: string,
+    type: K,
+    payload: MicroFrontendRequestPayload<K>,
+    options?: MicroFrontendRequestOptions
+  ): Promise<MicroFrontendResponsePayload<K>>;
+
+  // Answer requests of a specific type; the handler is removed with the client unless removed before
+  handle<K extends MicroFrontendRequestType>(type: K, handler: MicroFrontendRequestHandler<K>): () => void;
+}
+
+/**
+ * Provides the client of a micro frontend
+ * @param options The name of the micro frontend and how the client behaves
+ * @returns The provider to add to the root component of the micro frontend, so the client
+ * sees the API handle of the injector the shell mounts it with and ends with the component
+ */
+export function provideMicroFrontendClient(options: MicroFrontendClientOptions): Provider {
+  return {
+    provide: MicroFrontendClient,
+    useFactory: () => createMicroFrontendClient(options),
+  };
+}
+
+/**
+ * Creates a client in the current injection context
+ * @param options The name of the micro frontend and how the client behaves
+ * @returns The client, whose subscriptions and handlers end when the injection context is destroyed
+ */
+export function createMicroFrontendClient(options: MicroFrontendClientOptions): MicroFrontendClient {
+  const appName = inject(MicroFrontendRemoteContext, { optional: true })?.name ?? options.appName;
+  const shellName = options.shellName ?? 'application-shell';
+  const destroyRef = inject(DestroyRef);
+
+  // API handle issued to this micro frontend, null when running without one
+  const api = inject(MicroFrontendApi, { optional: true });
+  const standalone = inject(InMemoryMicroFrontendBus, { optional: true }) !== null;
+
+  const connection = signal<MicroFrontendConnectionState>(
+    api ? (standalone ? 'standalone' : 'connected') : 'disconnected'
+  );
+  // Starts with the messages delivered before the client existed, such as the ones restored by the shell
+  const messages = signal<TypedMicroFrontendMessage[]>(api ? api.getMessages().slice(-CLIENT_MESSAGE_LIMIT) : []);
+
+  // Selectors are shared by every caller asking for the same source or type
+  const messagesFromSource = new Map<string, Signal<TypedMicroFrontendMessage[]>>();
+  const latestOfType = new Map<string, Signal<TypedMicroFrontendMessage | undefined>>();
+
+  const unavailable = (action: string) =>
+    console.warn(`${appName} API not available: ${action}. Make sure the shell has mounted this app with its API handle.`);
+
+  const report = (result: MicroFrontendSendResult, description: string): boolean => {
+    if (!result.accepted) {
+      console.warn(`${description} was rejected (${result.rejection.code}):`, result.rejection.errors);
+    }
+    return result.accepted;
+  };
+
+  const client: MicroFrontendClient = {
+    appName,
+    shellName,
+    connection: connection.asReadonly(),
+    messages: messages.asReadonly(),
+
+    messagesFrom: (source) => {
+      let selector = messagesFromSource.get(source);
+      if (!selector) {
+        selector = computed(() => messages().filter(message => message.from === source));
+        messagesFromSource.set(source, selector);
+      }
+      return selector;
+    },
+
+    latest: <K extends MicroFrontendMessageType>(type: K) => {
+      let selector = latestOfType.get(type);
+      if (!selector) {
+        selector = computed(() => {
+          const matching = messages().filter(message => message.type === type);
+          return matching[matching.length - 1];
+        });
+        latestOfType.set(type, selector);
+      }
+      return selector as Signal<TypedMicroFrontendMessage<K> | undefined>;
+    },
+
+    sendMessage: (to, type, payload, sendOptions) => {
+      if (!api) {
+        unavailable(`message to ${to} not sent`);
+        return false;
+      }
+      return report(api.sendMessage(to, type, payload, sendOptions), `Message from ${appName} to ${to}`);
+    },
+
+    sendToShell: (type, payload, sendOptions) => client.sendMessage(shellName, type, payload, sendOptions),
+
+    publish: (topic, payload) => {
+      if (!api) {
+        unavailable(`message on '${topic}' not published`);
+        return false;
+      }
+      return report(api.publish(topic, payload), `Message published by ${appName} on '${topic}'`);
+    },
+
+    subscribe: (pattern, listener, subscribeOptions = {}) => {
+      if (!api) {
+        unavailable(`subscription to '${pattern}' not created`);
+        return { unsubscribe: () => {} };
+      }
+
+      const subscription = api.subscribe(pattern, listener, subscribeOptions);
+      destroyRef.onDestroy(() => subscription.unsubscribe());
+      return subscription;
+    },
+
+    request: (to, type, payload, requestOptions) => {
+      if (!api) {
+        return Promise.reject(new Error(`${appName} API not available: request '${type}' to ${to} not sent`));
+      }
+      return api.request(to, type, payload, requestOptions);
+    },
+
+    handle: (type, handler) => {
+      if (!api) {
+        unavailable(`handler for '${type}' requests not registered`);
+        return () => {};
+      }
+
+      const unhandle = api.handle(type, handler);
+      destroyRef.onDestroy(unhandle);
+      return unhandle;
+    },
+  };
+
+  // Collect every message directed or broadcast to this app ('**' matches any type). Held messages
+  // replayed on subscription may already be part of the messages the client started with.
+  client.subscribe('**', message =>
+    messages.update(current =>
+      message.id && current.some(({ id }) => id === message.id)
+        ? current
+        : [...current, message].slice(-CLIENT_MESSAGE_LIMIT)
+    )
+  );
+
+  // Answer pings so other micro frontends can check this one is alive
+  if (options.answerPings ?? true) {
+    client.handle('ping', () => ({ name: appName, timestamp: Date.now() }));
+  }
+
+  destroyRef.onDestroy(() => connection.set('disconnected'));
+
+  return client;
+}
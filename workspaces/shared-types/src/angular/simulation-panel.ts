@@ -0,0 +1,142 @@
+/**
+ * Simulation panel for remotes running on their own
+ *
+ * A remote started without the shell talks to an in-memory bus. The panel sends
+ * messages to the remote on behalf of the shell and the other remotes, answers
+ * their pings and lists the traffic on the bus. It is built from plain DOM
+ * elements, so the package ships no component that would need compiling.
+ */
+
+import { DestroyRef, inject } from '@angular/core';
+import { MicroFrontendMessage } from '../micro-frontend-api.types';
+import { MicroFrontendMessagePayload, MicroFrontendMessageType } from '../message-registry.types';
+import { InMemoryMicroFrontendBus } from '../in-memory-bus';
+
+// Options of the simulation panel
+export interface MicroFrontendSimulationPanelOptions {
+  appName: string;   // Name of the remote the simulated messages are sent to
+  senders: string[]; // Micro frontends the remote talks to when mounted by the shell, simulated here
+}
+
+// Most recent messages listed in the traffic
+const TRAFFIC_LIMIT = 200;
+
+const PANEL_STYLE = `
+  position: fixed; right: 10px; bottom: 10px; width: 340px; max-height: 60vh; overflow: auto;
+  padding: 10px; background: #fffde7; border: 2px dashed #fbc02d; border-radius: 8px;
+  font: 12px system-ui, sans-serif; z-index: 1000;
+`;
+
+/**
+ * Shows the simulation panel next to a remote running on the in-memory bus its injector provides.
+ * Must be called in an injection context, such as `appRef.injector.runInContext()`;
+ * the panel is removed when that injector is destroyed.
+ * @param options The remote's name and the micro frontends to simulate
+ * @returns A function removing the panel
+ */
+export function attachSimulationPanel(options: MicroFrontendSimulationPanelOptions): () => void {
+  const bus = inject(InMemoryMicroFrontendBus);
+  const destroyRef = inject(DestroyRef);
+  const { appName, senders } = options;
+
+  const panel = element('aside', PANEL_STYLE);
+  const from = element('select');
+  senders.forEach(name => from.append(new Option(name, name)));
+  const type = element('input');
+  type.placeholder = 'Type, e.g. default';
+  type.value = 'default';
+  const payload = element('textarea');
+  payload.rows = 3;
+  payload.value = '"Hello from the simulation panel"';
+  const sendButton = element('button', '', `Send to ${appName}`);
+  sendButton.type = 'button';
+  const publishButton = element('button', '', 'Publish');
+  publishButton.type = 'button';
+  const status = element('div', 'margin-top: 6px; font-style: italic;');
+  const traffic = element('ol', 'padding-left: 16px;');
+
+  const form = element('div', 'display: flex; flex-direction: column; gap: 4px;');
+  const buttons = element('div');
+  buttons.append(sendButton, publishButton);
+  form.append(from, type, payload, buttons);
+  panel.append(
+    element('h3', '', 'Standalone mode'),
+    element('p', '', 'No shell found: messages go through an in-memory bus.'),
+    form,
+    status,
+    element('h4', '', 'Traffic'),
+    traffic
+  );
+
+  /**
+   * Sends the simulated message on behalf of the selected micro frontend
+   * @param broadcast Whether to publish the message to every micro frontend instead of the remote only
+   */
+  const send = (broadcast: boolean) => {
+    // Any type can be simulated, including types missing from the message registry
+    const simulatedType = type.value as MicroFrontendMessageType;
+    let simulatedPayload: MicroFrontendMessagePayload<typeof simulatedType>;
+    try {
+      simulatedPayload = JSON.parse(payload.value);
+    } catch (error) {
+      status.textContent = `The payload is not valid JSON: ${error instanceof Error ? error.message : String(error)}`;
+      return;
+    }
+
+    const api = bus.issueApi(from.value);
+    const result = broadcast
+      ? api.publish(simulatedType, simulatedPayload)
+      : api.sendMessage(appName, simulatedType, simulatedPayload);
+    status.textContent = result.accepted ? 'Sent' : `Rejected: ${result.rejection.errors.join(', ')}`;
+  };
+  sendButton.addEventListener('click', () => send(false));
+  publishButton.addEventListener('click', () => send(true));
+
+  const empty = element('li', '', 'No messages');
+  const list = (message: MicroFrontendMessage<unknown>) => {
+    empty.remove();
+    const item = element('li');
+    item.append(
+      element('span', 'color: #757575;', new Date(message.timestamp).toLocaleTimeString('en-GB')),
+      ` ${message.from} → ${message.to} `,
+      element('strong', '', message.type),
+      ' ',
+      element('code', '', JSON.stringify(message.payload) ?? 'undefined')
+    );
+    traffic.append(item);
+    while (traffic.children.length > TRAFFIC_LIMIT) {
+      traffic.firstElementChild?.remove();
+    }
+  };
+
+  traffic.append(empty);
+  bus.history().slice(-TRAFFIC_LIMIT).forEach(list);
+  const stopObserving = bus.observe(list);
+
+  // Answer pings on behalf of the simulated micro frontends
+  const unhandlers = senders.map(name => bus.issueApi(name).handle('ping', () => ({ name, timestamp: Date.now() })));
+
+  document.body.appendChild(panel);
+
+  let attached = true;
+  const detach = () => {
+    if (attached) {
+      attached = false;
+      stopObserving();
+      unhandlers.forEach(unhandle => unhandle());
+      panel.remove();
+    }
+  };
+  destroyRef.onDestroy(detach);
+  return detach;
+}
+
+/**
+ * Creates an element with inline styles and text content
+ */
+function element<K extends keyof HTMLElementTagNameMap>(tag: K, style = '', text = ''): HTMLElementTagNameMap[K] {
+  const created = document.createElement(tag);
+  created.style.cssText = style;
+  created.textContent = text;
+  return created;
+}
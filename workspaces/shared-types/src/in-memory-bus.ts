@@ -0,0 +1,185 @@
+/**
+ * In-memory message bus for running micro frontends without the shell
+ *
+ * The bus delivers messages through the same `MicroFrontendDelivery` core as the
+ * shell (direct messages, broadcasts, topic subscriptions, delivery modes and
+ * requests) but does not validate, persist or police messages. A remote started
+ * on its own uses a handle of the bus as its `MicroFrontendApi`, and simulates
+ * the shell and other remotes through theirs.
+ */
+
+import {
+  MicroFrontendApi,
+  MicroFrontendMessage,
+  MicroFrontendMessageQuery,
+  MicroFrontendSubscription,
+} from './micro-frontend-api.types';
+import { MicroFrontendSendResult } from './message-validation.types';
+import {
+  MicroFrontendMessageType,
+  TypedMicroFrontendMessage,
+} from './message-registry.types';
+import {
+  MicroFrontendRequestPayload,
+  MicroFrontendRequestType,
+  MicroFrontendResponsePayload,
+} from './message-request.types';
+import { MICRO_FRONTEND_BROADCAST } from './message-topics';
+import { applyMessageQuery } from './message-query';
+import { MicroFrontendDelivery, MicroFrontendDeliveryObserver } from './message-delivery';
+
+// Options of an in-memory bus
+export interface InMemoryMicroFrontendBusOptions {
+  requestTimeout?: number; // Milliseconds a request waits for its response, 5000 when omitted
+  historyLimit?: number;   // Most recent messages kept in the history, 1000 when omitted
+}
+
+// Observer of every message exchanged on a bus
+export type InMemoryMicroFrontendBusObserver = (message: MicroFrontendMessage<unknown>) => void;
+
+/**
+ * Message bus issuing API handles to any number of micro frontends in the same window
+ */
+export class InMemoryMicroFrontendBus {
+  private messages: MicroFrontendMessage<unknown>[] = [];
+  private readonly delivery = new MicroFrontendDelivery();
+  private readonly observers = new Set<InMemoryMicroFrontendBusObserver>();
+  private readonly requestTimeout: number;
+  private readonly historyLimit: number;
+
+  constructor(options: InMemoryMicroFrontendBusOptions = {}) {
+    this.requestTimeout = options.requestTimeout ?? 5000;
+    this.historyLimit = options.historyLimit ?? 1000;
+  }
+
+  /**
+   * Issues the API handle of a micro frontend; every message sent through it carries its name
+   * @param name The name of the micro frontend
+   * @returns The API acting on behalf of the micro frontend
+   */
+  issueApi(name: string): MicroFrontendApi {
+    return {
+      getMessages: <K extends MicroFrontendMessageType = MicroFrontendMessageType>(
+        filter?: K | MicroFrontendMessageQuery<K>
+      ): TypedMicroFrontendMessage<K>[] => {
+        const query = typeof filter === 'string' ? { type: filter } : filter;
+        return applyMessageQuery(this.deliverable(), name, query) as TypedMicroFrontendMessage<K>[];
+      },
+
+      getLatestMessage: <K extends MicroFrontendMessageType>(type: K): TypedMicroFrontendMessage<K> | undefined => {
+        const [latest] = applyMessageQuery(this.deliverable(), name, { type, order: 'desc', limit: 1 });
+        return latest as TypedMicroFrontendMessage<K> | undefined;
+      },
+
+      sendMessage: (to, type, payload, options = {}) =>
+        this.deliver({ from: name, to, type, payload, timestamp: Date.now(), ...(options.delivery ? { delivery: options.delivery } : {}) }),
+
+      publish: (topic, payload) =>
+        this.deliver({ from: name, to: MICRO_FRONTEND_BROADCAST, type: topic, payload, timestamp: Date.now() }),
+
+      subscribe: (pattern, listener, options = {}): MicroFrontendSubscription => {
+        const unsubscribe = this.delivery.subscribe(name, pattern, listener);
+        options.destroyRef?.onDestroy(unsubscribe);
+        return { unsubscribe };
+      },
+
+      request: <K extends MicroFrontendRequestType>(
+        to: string,
+        type: K,
+        payload: MicroFrontendRequestPayload<K>,
+        options: { timeout?: number } = {}
+      ): Promise<MicroFrontendResponsePayload<K>> =>
+        this.request(
+          { from: name, to, type, payload, timestamp: Date.now(), kind: 'request', correlationId: crypto.randomUUID() },
+          options.timeout ?? this.requestTimeout
+        ) as Promise<MicroFrontendResponsePayload<K>>,
+
+      handle: (type, handler) => this.delivery.handle(name, type, handler),
+    };
+  }
+
+  /**
+   * Gets the latest messages exchanged on the bus, requests and responses included
+   * @returns The messages, oldest first
+   */
+  history(): MicroFrontendMessage<unknown>[] {
+    return [...this.messages];
+  }
+
+  /**
+   * Observes every message exchanged on the bus
+   * @param observer Called with each message once it is recorded
+   * @returns A function that stops the observation
+   */
+  observe(observer: InMemoryMicroFrontendBusObserver): () => void {
+    this.observers.add(observer);
+    return () => {
+      this.observers.delete(observer);
+    };
+  }
+
+  /**
+   * Checks whether a micro frontend has a subscription receiving a message type
+   * @param name The name of the micro frontend
+   * @param type The message type
+   * @returns Whether one of its subscription patterns matches the type
+   */
+  isSubscribed(name: string, type: string): boolean {
+    return this.delivery.isSubscribed(name, type);
+  }
+
+  /**
+   * Checks whether a micro frontend answers a request type
+   * @param name The name of the micro frontend
+   * @param type The request type
+   * @returns Whether it registered a handler for the type
+   */
+  isHandled(name: string, type: string): boolean {
+    return this.delivery.isHandled(name, type);
+  }
+
+  /**
+   * Observes the messages micro frontends receive through their subscriptions
+   * @param observer Called with each message a listener received without throwing, and its recipient
+   * @returns A function that stops the observation
+   */
+  observeDeliveries(observer: MicroFrontendDeliveryObserver): () => void {
+    return this.delivery.observeDeliveries(observer);
+  }
+
+  /**
+   * Forgets every message, held message included; subscriptions and handlers are kept
+   */
+  clear(): void {
+    this.messages = [];
+    this.delivery.clearHeldMessages();
+  }
+
+  private deliver(message: MicroFrontendMessage<unknown>): MicroFrontendSendResult {
+    const stored = { ...message, id: crypto.randomUUID() };
+    this.record(stored);
+    this.delivery.deliver(stored);
+    return { accepted: true };
+  }
+
+  private async request(message: MicroFrontendMessage<unknown>, timeout: number): Promise<unknown> {
+    this.record(message);
+
+    const response = await this.delivery.request(message, timeout);
+    this.record(response);
+    return response.payload;
+  }
+
+  private record(message: MicroFrontendMessage<unknown>): void {
+    this.messages.push(message);
+    if (this.messages.length > this.historyLimit) {
+      this.messages.splice(0, this.messages.length - this.historyLimit);
+    }
+    this.observers.forEach((observer) => observer(message));
+  }
+
+  // Requests and responses are recorded but never returned by message queries
+  private deliverable(): MicroFrontendMessage<unknown>[] {
+    return this.messages.filter(({ kind }) => kind === undefined || kind === 'message');
+  }
+}
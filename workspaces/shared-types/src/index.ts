@@ -3,4 +3,18 @@
  * It exports all the types that should be available to consumers.
  */
 
-export * from './micro-frontend-api.types';
\ No newline at end of file
+export * from './micro-frontend-api.types';
+export * from './message-registry.types';
+export * from './message-validation.types';
+export * from './message-request.types';
+export * from './message-topics';
+export * from './message-query';
+export * from './message-bridge';
+export * from './remote-metadata';
+export * from './mount-contract.types';
+export * from './remote-context.types';
+export * from './state-store.types';
+export * from './navigation';
+export * from './message-delivery';
+export * from './in-memory-bus';
+export * from './session.types';
\ No newline at end of file
@@ -0,0 +1,407 @@
+/**
+ * postMessage bridge for micro frontends that do not share the shell's window
+ *
+ * A micro frontend hosted in an iframe, possibly on another origin, is out of reach
+ * of the shell's injectors. The bridge exposes the same `MicroFrontendApi` over
+ * `window.postMessage`: the iframe says hello, the shell answers with a welcome
+ * carrying the name it assigned and the message history, and every API call
+ * after that travels as a serialized envelope.
+ */
+
+import {
+  MicroFrontendApi,
+  MicroFrontendMessage,
+  MicroFrontendMessageListener,
+  MicroFrontendMessageQuery,
+  MicroFrontendSubscription,
+} from './micro-frontend-api.types';
+import { MicroFrontendSendResult } from './message-validation.types';
+import {
+  MicroFrontendRequestHandler,
+  MicroFrontendRequestOptions,
+  MicroFrontendRequestPayload,
+  MicroFrontendRequestType,
+  MicroFrontendResponsePayload,
+} from './message-request.types';
+import { matchesTopicPattern, MICRO_FRONTEND_BROADCAST } from './message-topics';
+import { applyMessageQuery } from './message-query';
+import { MicroFrontendMessageType, TypedMicroFrontendMessage } from './message-registry.types';
+
+// Protocol identifier carried by every bridge envelope
+export const MICRO_FRONTEND_BRIDGE_PROTOCOL = 'mf-bridge/1';
+
+// API methods that can be called over the bridge
+export type MicroFrontendBridgeMethod = 'sendMessage' | 'publish' | 'request' | 'handle' | 'unhandle';
+
+// Error carried by a failed call or request
+export interface MicroFrontendBridgeError {
+  message: string;
+  code?: string;
+}
+
+// Envelopes exchanged between the shell and a bridged micro frontend
+export type MicroFrontendBridgeEnvelope = { protocol: typeof MICRO_FRONTEND_BRIDGE_PROTOCOL } & (
+  | { kind: 'hello' }                                                                        // Iframe asks to connect
+  | { kind: 'welcome'; name: string; messages: MicroFrontendMessage<unknown>[] }             // Shell accepts the connection
+  | { kind: 'call'; id: string; method: MicroFrontendBridgeMethod; args: unknown[] }         // Iframe calls the API
+  | { kind: 'result'; id: string; value?: unknown; error?: MicroFrontendBridgeError }        // Shell answers a call
+  | { kind: 'message'; message: MicroFrontendMessage<unknown> }                              // Shell delivers a message
+  | { kind: 'request'; id: string; message: MicroFrontendMessage<unknown> }                  // Shell forwards a request to a handler
+  | { kind: 'response'; id: string; value?: unknown; error?: MicroFrontendBridgeError }      // Iframe answers a forwarded request
+);
+
+const BRIDGE_KINDS = ['hello', 'welcome', 'call', 'result', 'message', 'request', 'response'];
+
+/**
+ * Checks that received data is a bridge envelope
+ * @param data The data of a message event
+ * @returns True for envelopes of the supported protocol version
+ */
+export function isMicroFrontendBridgeEnvelope(data: unknown): data is MicroFrontendBridgeEnvelope {
+  if (typeof data !== 'object' || data === null) {
+    return false;
+  }
+
+  const envelope = data as { protocol?: unknown; kind?: unknown };
+  return envelope.protocol === MICRO_FRONTEND_BRIDGE_PROTOCOL && BRIDGE_KINDS.includes(envelope.kind as string);
+}
+
+/**
+ * Checks that a value survives structured cloning, as postMessage requires
+ * @param value The value to check
+ * @returns The problem found, undefined when the value can be sent
+ */
+export function findSerializationError(value: unknown): string | undefined {
+  try {
+    structuredClone(value);
+    return undefined;
+  } catch (error) {
+    return `payload cannot be serialized: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+// Options for connecting to the shell from an iframe
+export interface MicroFrontendBridgeClientOptions {
+  allowedOrigins: string[]; // Origins of the shells this micro frontend accepts
+  timeout?: number;         // Milliseconds to wait for the handshake, for each call and for requests without their own timeout
+}
+
+// Milliseconds between hello attempts while the shell is not listening yet
+const HELLO_INTERVAL = 250;
+
+/**
+ * Connects to the shell hosting this iframe and returns the bridged API
+ * @param options The accepted shell origins and timeouts
+ * @returns A promise resolved with the API once the shell has welcomed this micro frontend
+ */
+export function connectToBridgeHost(options: MicroFrontendBridgeClientOptions): Promise<MicroFrontendApi> {
+  const timeout = options.timeout ?? 5000;
+
+  return new Promise((resolve, reject) => {
+    const hello: MicroFrontendBridgeEnvelope = { protocol: MICRO_FRONTEND_BRIDGE_PROTOCOL, kind: 'hello' };
+
+    const stop = () => {
+      clearInterval(helloTimer);
+      clearTimeout(timeoutTimer);
+      window.removeEventListener('message', onWelcome);
+    };
+
+    const onWelcome = (event: MessageEvent) => {
+      const envelope = event.data;
+      if (
+        event.source !== window.parent ||
+        !options.allowedOrigins.includes(event.origin) ||
+        !isMicroFrontendBridgeEnvelope(envelope) ||
+        envelope.kind !== 'welcome'
+      ) {
+        return;
+      }
+
+      stop();
+      resolve(new BridgeClient(event.origin, envelope.name, envelope.messages, timeout).api);
+    };
+
+    window.addEventListener('message', onWelcome);
+
+    // The hello carries nothing sensitive, so it can go to any origin until the shell answers
+    const helloTimer = setInterval(() => window.parent.postMessage(hello, '*'), HELLO_INTERVAL);
+    window.parent.postMessage(hello, '*');
+
+    const timeoutTimer = setTimeout(() => {
+      stop();
+      reject(new Error(`No shell answered the bridge handshake within ${timeout}ms`));
+    }, timeout);
+  });
+}
+
+// Most recent messages kept by the client to answer queries locally
+const CLIENT_HISTORY_LIMIT = 500;
+
+// Milliseconds a request call waits beyond the request's timeout
+const REQUEST_CALL_MARGIN = 1000;
+
+interface BridgeSubscription {
+  pattern: string;
+  listener: MicroFrontendMessageListener;
+}
+
+// Request handler as registered, with the payload it was registered for checked at the call site
+type BridgeRequestHandler = (payload: unknown, message: MicroFrontendMessage<unknown>) => unknown;
+
+/**
+ * Iframe side of the bridge, answering queries from messages pushed by the shell
+ */
+class BridgeClient {
+  readonly api: MicroFrontendApi;
+
+  private readonly subscriptions = new Set<BridgeSubscription>();
+  private readonly handlers = new Map<string, BridgeRequestHandler>();
+  private readonly pendingCalls = new Map<string, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+
+  // Messages sent with a replay delivery mode that the shell pushed before a subscription could receive them, oldest first
+  private held: MicroFrontendMessage<unknown>[] = [];
+
+  constructor(
+    private readonly hostOrigin: string,
+    private readonly name: string,
+    private messages: MicroFrontendMessage<unknown>[],
+    private readonly timeout: number
+  ) {
+    window.addEventListener('message', (event) => this.receive(event));
+
+    this.api = {
+      getMessages: <K extends MicroFrontendMessageType = MicroFrontendMessageType>(
+        filter?: K | MicroFrontendMessageQuery<K>
+      ): TypedMicroFrontendMessage<K>[] => {
+        const query = typeof filter === 'string' ? { type: filter } : filter;
+        return applyMessageQuery(this.messages, this.name, query) as TypedMicroFrontendMessage<K>[];
+      },
+
+      getLatestMessage: <K extends MicroFrontendMessageType>(type: K): TypedMicroFrontendMessage<K> | undefined => {
+        const [latest] = applyMessageQuery(this.messages, this.name, { type, order: 'desc', limit: 1 });
+        return latest as TypedMicroFrontendMessage<K> | undefined;
+      },
+
+      sendMessage: (to, type, payload, sendOptions) => this.send('sendMessage', [to, type, payload, sendOptions], payload),
+
+      publish: (topic, payload) => this.send('publish', [topic, payload], payload),
+
+      subscribe: (pattern, listener, subscribeOptions = {}): MicroFrontendSubscription => {
+        const subscription: BridgeSubscription = { pattern, listener };
+        this.subscriptions.add(subscription);
+        this.replayHeldMessages(subscription);
+
+        const unsubscribe = () => {
+          this.subscriptions.delete(subscription);
+        };
+        subscribeOptions.destroyRef?.onDestroy(unsubscribe);
+
+        return { unsubscribe };
+      },
+
+      request: <K extends MicroFrontendRequestType>(
+        to: string,
+        type: K,
+        payload: MicroFrontendRequestPayload<K>,
+        requestOptions?: MicroFrontendRequestOptions
+      ): Promise<MicroFrontendResponsePayload<K>> => {
+        // The shell is given the timeout, so its own timeout error arrives before the call's
+        const timeout = requestOptions?.timeout ?? this.timeout;
+        const forwarded: MicroFrontendRequestOptions = { ...requestOptions, timeout };
+        const response = this.call('request', [to, type, payload, forwarded], timeout + REQUEST_CALL_MARGIN);
+        return response as Promise<MicroFrontendResponsePayload<K>>;
+      },
+
+      handle: <K extends MicroFrontendRequestType>(type: K, handler: MicroFrontendRequestHandler<K>) => {
+        const registered: BridgeRequestHandler = (payload, message) =>
+          handler(payload as MicroFrontendRequestPayload<K>, message as MicroFrontendMessage<MicroFrontendRequestPayload<K>>);
+        this.handlers.set(type, registered);
+        this.call('handle', [type]).catch((error) => console.error(`Could not register handler for '${type}':`, error));
+
+        return () => {
+          if (this.handlers.get(type) === registered) {
+            this.handlers.delete(type);
+            this.call('unhandle', [type]).catch(() => undefined);
+          }
+        };
+      },
+    };
+  }
+
+  /**
+   * Sends a message through the shell after checking it can be serialized. The shell's verdict
+   * arrives after the call returns, so an accepted result is always deferred: rejections by the
+   * shell's validation, policy or interceptors are logged and reported to its dead letters.
+   */
+  private send(method: 'sendMessage' | 'publish', args: unknown[], payload: unknown): MicroFrontendSendResult {
+    const serializationError = findSerializationError(payload);
+    if (serializationError) {
+      return {
+        accepted: false,
+        rejection: {
+          code: 'INVALID_PAYLOAD',
+          errors: [serializationError],
+          message: { from: this.name, to: String(args[0]), type: String(args[1]), payload: undefined, timestamp: Date.now() },
+          rejectedAt: Date.now(),
+        },
+      };
+    }
+
+    this.call(method, args).then(
+      (result) => {
+        const sendResult = result as MicroFrontendSendResult;
+        if (!sendResult.accepted) {
+          console.warn(`Message from ${this.name} rejected by the shell:`, sendResult.rejection);
+        }
+      },
+      (error) => console.error(`Could not send message from ${this.name}:`, error)
+    );
+
+    return { accepted: true, deferred: true };
+  }
+
+  private call(method: MicroFrontendBridgeMethod, args: unknown[], timeout = this.timeout): Promise<unknown> {
+    const id = crypto.randomUUID();
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingCalls.delete(id);
+        reject(new Error(`Bridge call '${method}' timed out after ${timeout}ms`));
+      }, timeout);
+
+      this.pendingCalls.set(id, {
+        resolve: (value) => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+
+      this.post({ protocol: MICRO_FRONTEND_BRIDGE_PROTOCOL, kind: 'call', id, method, args });
+    });
+  }
+
+  private receive(event: MessageEvent): void {
+    const envelope = event.data;
+    if (event.source !== window.parent || event.origin !== this.hostOrigin || !isMicroFrontendBridgeEnvelope(envelope)) {
+      return;
+    }
+
+    switch (envelope.kind) {
+      case 'message':
+        // Held messages replayed after the welcome are already part of the history it carried
+        if (!envelope.message.id || !this.messages.some(({ id }) => id === envelope.message.id)) {
+          this.messages = [...this.messages, envelope.message].slice(-CLIENT_HISTORY_LIMIT);
+        }
+        this.deliver(envelope.message);
+        break;
+
+      case 'result': {
+        const pending = this.pendingCalls.get(envelope.id);
+        this.pendingCalls.delete(envelope.id);
+        if (envelope.error) {
+          pending?.reject(toError(envelope.error));
+        } else {
+          pending?.resolve(envelope.value);
+        }
+        break;
+      }
+
+      case 'request':
+        this.answer(envelope.id, envelope.message);
+        break;
+    }
+  }
+
+  /**
+   * Notifies the subscriptions matching a message pushed by the shell. The shell replays held messages
+   * right after the welcome, before the app had a chance to subscribe, so the ones no subscription
+   * received are held again until one does.
+   */
+  private deliver(message: MicroFrontendMessage<unknown>): void {
+    let received = false;
+    this.subscriptions.forEach((subscription) => {
+      if (matchesTopicPattern(subscription.pattern, message.type)) {
+        received = this.notify(subscription, message) || received;
+      }
+    });
+
+    const delivery = message.delivery ?? 'at-most-once';
+    if (received || delivery === 'at-most-once' || message.to === MICRO_FRONTEND_BROADCAST) {
+      return;
+    }
+
+    this.held = [
+      // Only the last message of a type is replayed
+      ...(delivery === 'replay-last-per-type' ? this.held.filter(({ type }) => type !== message.type) : this.held),
+      message,
+    ].slice(-CLIENT_HISTORY_LIMIT);
+  }
+
+  /**
+   * Delivers the held messages a new subscription matches, and releases the ones its listener received
+   */
+  private replayHeldMessages(subscription: BridgeSubscription): void {
+    const replayed = this.held.filter(({ type }) => matchesTopicPattern(subscription.pattern, type));
+    if (replayed.length === 0) {
+      return;
+    }
+
+    const acknowledged = replayed.filter((message) => this.notify(subscription, message));
+    this.held = this.held.filter((message) => !acknowledged.includes(message));
+  }
+
+  /**
+   * Calls a subscription's listener, so that one failing listener does not keep the others from the message
+   * @returns Whether the listener received the message without throwing
+   */
+  private notify(subscription: BridgeSubscription, message: MicroFrontendMessage<unknown>): boolean {
+    try {
+      subscription.listener(message as TypedMicroFrontendMessage);
+    } catch (error) {
+      console.error(`Subscription of ${this.name} to '${subscription.pattern}' failed:`, error);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Runs the local handler for a request forwarded by the shell and sends back its response
+   */
+  private answer(id: string, message: MicroFrontendMessage<unknown>): void {
+    const handler = this.handlers.get(message.type);
+
+    Promise.resolve()
+      .then(() => {
+        if (!handler) {
+          throw new Error(`${this.name} has no handler for request '${message.type}'`);
+        }
+        return handler(message.payload, message);
+      })
+      .then(
+        (value) => this.post({ protocol: MICRO_FRONTEND_BRIDGE_PROTOCOL, kind: 'response', id, value }),
+        (error: unknown) =>
+          this.post({
+            protocol: MICRO_FRONTEND_BRIDGE_PROTOCOL,
+            kind: 'response',
+            id,
+            error: { message: error instanceof Error ? error.message : String(error) },
+          })
+      );
+  }
+
+  private post(envelope: MicroFrontendBridgeEnvelope): void {
+    window.parent.postMessage(envelope, this.hostOrigin);
+  }
+}
+
+/**
+ * Rebuilds an error received over the bridge, keeping the request error code
+ */
+function toError(error: MicroFrontendBridgeError): Error {
+  const rebuilt = new Error(error.message);
+  return error.code ? Object.assign(rebuilt, { name: 'MicroFrontendRequestError', code: error.code }) : rebuilt;
+}
@@ -0,0 +1,273 @@
+/**
+ * Delivery rules shared by the shell and the in-memory bus
+ *
+ * Direct messages and broadcasts reach the subscriptions whose topic pattern
+ * matches their type, messages sent with a replay delivery mode are held until
+ * their recipient subscribes, and requests are answered by the handler their
+ * target registered. Hosts add what happens around delivery, such as validation,
+ * policies, interceptors and storage.
+ */
+
+import { MicroFrontendMessage, MicroFrontendMessageListener } from './micro-frontend-api.types';
+import { TypedMicroFrontendMessage } from './message-registry.types';
+import {
+  MicroFrontendRequestError,
+  MicroFrontendRequestErrorCode,
+  MicroFrontendRequestHandler,
+  MicroFrontendRequestPayload,
+  MicroFrontendRequestType,
+} from './message-request.types';
+import { isMessageForMicroFrontend, matchesTopicPattern, MICRO_FRONTEND_BROADCAST } from './message-topics';
+
+// Options of a delivery core
+export interface MicroFrontendDeliveryOptions {
+  unheldRecipients?: string[]; // Recipients whose messages are never held, such as a shell reading them from its store
+  onHeldChange?: (held: MicroFrontendMessage<unknown>[]) => void; // Called with the held messages whenever they change
+  heldLimit?: number;           // Maximum number of held messages, the oldest released first; unlimited when omitted
+}
+
+// Observer of the messages received by a recipient
+export type MicroFrontendDeliveryObserver = (message: MicroFrontendMessage<unknown>, recipient: string) => void;
+
+interface DeliverySubscription {
+  owner: string;
+  pattern: string;
+  listener: MicroFrontendMessageListener;
+}
+
+// Request handler as registered, with the payload it was registered for checked at the call site
+type DeliveryRequestHandler = (payload: unknown, message: MicroFrontendMessage<unknown>) => unknown;
+
+/**
+ * Creates the error a failed request is rejected with
+ * @param code The reason the request failed
+ * @param message The description of the failure
+ * @param correlationId The correlation id of the request
+ * @returns The error
+ */
+export function createMicroFrontendRequestError(
+  code: MicroFrontendRequestErrorCode,
+  message: string,
+  correlationId?: string
+): MicroFrontendRequestError {
+  return Object.assign(new Error(message), { name: 'MicroFrontendRequestError', code, correlationId });
+}
+
+/**
+ * Subscriptions, held messages and request handlers of every micro frontend of a host
+ */
+export class MicroFrontendDelivery {
+  private readonly subscriptions = new Set<DeliverySubscription>();
+  private readonly handlers = new Map<string, Map<string, DeliveryRequestHandler>>();
+  private readonly observers = new Set<MicroFrontendDeliveryObserver>();
+  private held: MicroFrontendMessage<unknown>[] = [];
+
+  constructor(private readonly options: MicroFrontendDeliveryOptions = {}) {}
+
+  /**
+   * Subscribes a micro frontend to the messages whose type matches a pattern,
+   * starting with the held messages it matches
+   * @param owner The name of the subscribing micro frontend
+   * @param pattern The topic pattern, e.g. 'cart.*'
+   * @param listener Receives the matching messages
+   * @returns A function ending the subscription
+   */
+  subscribe(owner: string, pattern: string, listener: MicroFrontendMessageListener): () => void {
+    const subscription: DeliverySubscription = { owner, pattern, listener };
+    this.subscriptions.add(subscription);
+    this.replayHeldMessages(subscription);
+
+    return () => {
+      this.subscriptions.delete(subscription);
+    };
+  }
+
+  /**
+   * Registers the handler answering a request type sent to a micro frontend, replacing any existing one
+   * @param owner The name of the answering micro frontend
+   * @param type The request type
+   * @param handler Answers the requests
+   * @returns A function removing the handler, unless it was replaced in the meantime
+   */
+  handle<K extends MicroFrontendRequestType>(owner: string, type: K, handler: MicroFrontendRequestHandler<K>): () => void {
+    const handlers = this.handlers.get(owner) ?? new Map<string, DeliveryRequestHandler>();
+    const registered: DeliveryRequestHandler = (payload, message) =>
+      handler(payload as MicroFrontendRequestPayload<K>, message as MicroFrontendMessage<MicroFrontendRequestPayload<K>>);
+    handlers.set(type, registered);
+    this.handlers.set(owner, handlers);
+
+    return () => {
+      if (handlers.get(type) === registered) {
+        handlers.delete(type);
+      }
+    };
+  }
+
+  /**
+   * Notifies the subscriptions of every recipient of a message, and holds direct messages
+   * sent with a replay delivery mode that none of them received
+   * @param message The message to deliver
+   * @returns Whether a subscription received the message
+   */
+  deliver(message: MicroFrontendMessage<unknown>): boolean {
+    let received = false;
+    this.subscriptions.forEach((subscription) => {
+      if (isMessageForMicroFrontend(message, subscription.owner) && matchesTopicPattern(subscription.pattern, message.type)) {
+        received = this.notify(subscription, message) || received;
+      }
+    });
+
+    if (!received) {
+      this.hold(message);
+    }
+    return received;
+  }
+
+  /**
+   * Passes a request to the handler registered by its target
+   * @param message The request message
+   * @param timeout Milliseconds to wait for the response
+   * @returns A promise resolved with the response message, or rejected with a request error
+   */
+  request(message: MicroFrontendMessage<unknown>, timeout: number): Promise<MicroFrontendMessage<unknown>> {
+    const { from, to, type, correlationId } = message;
+    const handler = this.handlers.get(to)?.get(type);
+
+    if (!handler) {
+      return Promise.reject(
+        createMicroFrontendRequestError('NO_HANDLER', `${to} has no handler for request '${type}'`, correlationId)
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        reject(createMicroFrontendRequestError('TIMEOUT', `Request '${type}' to ${to} timed out after ${timeout}ms`, correlationId));
+      }, timeout);
+
+      Promise.resolve()
+        .then(() => handler(message.payload, message))
+        .then(
+          (payload) => resolve({ from: to, to: from, type, payload, timestamp: Date.now(), kind: 'response', correlationId }),
+          (error: unknown) => {
+            const reason = error instanceof Error ? error.message : String(error);
+            reject(createMicroFrontendRequestError('HANDLER_ERROR', `${to} failed to handle request '${type}': ${reason}`, correlationId));
+          }
+        )
+        .finally(() => clearTimeout(timer));
+    });
+  }
+
+  /**
+   * Checks whether a micro frontend has a subscription receiving a message type
+   * @param owner The name of the micro frontend
+   * @param type The message type
+   * @returns Whether one of its subscription patterns matches the type
+   */
+  isSubscribed(owner: string, type: string): boolean {
+    return [...this.subscriptions].some((subscription) => subscription.owner === owner && matchesTopicPattern(subscription.pattern, type));
+  }
+
+  /**
+   * Checks whether a micro frontend answers a request type
+   * @param owner The name of the micro frontend
+   * @param type The request type
+   * @returns Whether it registered a handler for the type
+   */
+  isHandled(owner: string, type: string): boolean {
+    return this.handlers.get(owner)?.has(type) ?? false;
+  }
+
+  /**
+   * Observes the messages recipients receive
+   * @param observer Called with each message a listener received without throwing, and its recipient
+   * @returns A function that stops the observation
+   */
+  observeDeliveries(observer: MicroFrontendDeliveryObserver): () => void {
+    this.observers.add(observer);
+    return () => {
+      this.observers.delete(observer);
+    };
+  }
+
+  /**
+   * Reports a message a recipient received outside its subscriptions, such as a shell reading it from its store
+   * @param message The message received
+   * @param recipient The name of the recipient
+   */
+  reportDelivery(message: MicroFrontendMessage<unknown>, recipient: string): void {
+    this.observers.forEach((observer) => observer(message, recipient));
+  }
+
+  /**
+   * Gets the messages held until their recipient subscribes
+   * @returns The held messages, oldest first
+   */
+  heldMessages(): MicroFrontendMessage<unknown>[] {
+    return [...this.held];
+  }
+
+  /**
+   * Releases every held message without delivering it
+   */
+  clearHeldMessages(): void {
+    this.setHeld([]);
+  }
+
+  private notify(subscription: DeliverySubscription, message: MicroFrontendMessage<unknown>): boolean {
+    try {
+      subscription.listener(message as TypedMicroFrontendMessage);
+    } catch (error) {
+      console.error(`Subscription of ${subscription.owner} to '${subscription.pattern}' failed:`, error);
+      return false;
+    }
+
+    this.reportDelivery(message, subscription.owner);
+    return true;
+  }
+
+  private hold(message: MicroFrontendMessage<unknown>): void {
+    const delivery = message.delivery ?? 'at-most-once';
+    if (
+      delivery === 'at-most-once' ||
+      message.to === MICRO_FRONTEND_BROADCAST ||
+      this.options.unheldRecipients?.includes(message.to)
+    ) {
+      return;
+    }
+
+    const held = [
+      // Only the last message of a type is replayed
+      ...(delivery === 'replay-last-per-type'
+        ? this.held.filter(({ to, type }) => to !== message.to || type !== message.type)
+        : this.held),
+      message,
+    ];
+
+    const limit = this.options.heldLimit ?? held.length;
+    if (held.length > limit) {
+      console.warn(`Released ${held.length - limit} held message(s) that were never delivered, keeping the latest ${limit}`);
+    }
+    this.setHeld(held.slice(Math.max(held.length - limit, 0)));
+  }
+
+  /**
+   * Delivers the held messages a new subscription matches. Messages its listener receives are
+   * acknowledged and released, so they are not delivered again when the owner subscribes again.
+   */
+  private replayHeldMessages(subscription: DeliverySubscription): void {
+    const replayed = this.held.filter(
+      (message) => message.to === subscription.owner && matchesTopicPattern(subscription.pattern, message.type)
+    );
+    if (replayed.length === 0) {
+      return;
+    }
+
+    const acknowledged = new Set(replayed.filter((message) => this.notify(subscription, message)));
+    this.setHeld(this.held.filter((message) => !acknowledged.has(message)));
+  }
+
+  private setHeld(held: MicroFrontendMessage<unknown>[]): void {
+    this.held = held;
+    this.options.onHeldChange?.([...held]);
+  }
+}
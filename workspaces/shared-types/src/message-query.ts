@@ -0,0 +1,36 @@
+/**
+ * Query helper shared by every implementation of `MicroFrontendApi.getMessages`
+ */
+
+import { MicroFrontendMessage, MicroFrontendMessageQuery } from './micro-frontend-api.types';
+import { isMessageForMicroFrontend } from './message-topics';
+
+/**
+ * Filters and pages the messages delivered to a recipient
+ * @param messages Candidate messages, oldest first
+ * @param recipient The name of the recipient
+ * @param query Filters and paging
+ * @returns The matching messages in the requested order
+ */
+export function applyMessageQuery<M extends MicroFrontendMessage<unknown>>(
+  messages: M[],
+  recipient: string,
+  query: MicroFrontendMessageQuery = {}
+): M[] {
+  const { type, since, until, order = 'asc', offset = 0, limit } = query;
+  const senders = query.from === undefined ? undefined : ([] as string[]).concat(query.from);
+
+  const matches = messages.filter(message =>
+    isMessageForMicroFrontend(message, recipient) &&
+    (!type || message.type === type) &&
+    (!senders || senders.includes(message.from)) &&
+    (since === undefined || message.timestamp >= since) &&
+    (until === undefined || message.timestamp <= until)
+  );
+
+  if (order === 'desc') {
+    matches.reverse();
+  }
+
+  return matches.slice(offset, limit === undefined ? undefined : offset + limit);
+}
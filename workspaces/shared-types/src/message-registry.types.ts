@@ -0,0 +1,37 @@
+/**
+ * Type definitions for the micro frontend message registry
+ *
+ * The registry maps every message type to the payload it carries, so the
+ * communication API can infer payloads from the `type` argument.
+ * Micro frontends add their own message types through module augmentation:
+ *
+ * ```typescript
+ * declare module '@angular-microfrontends-poc/shared-types' {
+ *   interface MicroFrontendMessageRegistry {
+ *     'cart.updated': { itemCount: number };
+ *   }
+ * }
+ * ```
+ */
+
+import { MicroFrontendMessage } from './micro-frontend-api.types';
+import { MicroFrontendSessionExpiredEvent } from './session.types';
+
+// Map from message type to payload type, open for augmentation
+export interface MicroFrontendMessageRegistry {
+  default: string;                                     // Plain text message exchanged by the demo UIs
+  'session.expired': MicroFrontendSessionExpiredEvent; // Published by the shell when the user's session expires
+}
+
+// Any message type known to the registry
+export type MicroFrontendMessageType = keyof MicroFrontendMessageRegistry & string;
+
+// Payload type registered for a message type
+export type MicroFrontendMessagePayload<K extends MicroFrontendMessageType> =
+  MicroFrontendMessageRegistry[K];
+
+// Message whose payload matches its registered type (distributes over unions of types)
+export type TypedMicroFrontendMessage<K extends MicroFrontendMessageType = MicroFrontendMessageType> =
+  K extends MicroFrontendMessageType
+    ? MicroFrontendMessage<MicroFrontendMessagePayload<K>> & { type: K }
+    : never;
@@ -0,0 +1,58 @@
+/**
+ * Type definitions for request/response messaging between micro frontends
+ *
+ * The request registry maps every request type to its request and response
+ * payloads. Micro frontends add their own request types through module augmentation:
+ *
+ * ```typescript
+ * declare module '@angular-microfrontends-poc/shared-types' {
+ *   interface MicroFrontendRequestRegistry {
+ *     'order.get': { request: { id: number }; response: Order };
+ *   }
+ * }
+ * ```
+ */
+
+import { MicroFrontendMessage } from './micro-frontend-api.types';
+
+// Answer to a ping request
+export interface MicroFrontendPingResponse {
+  name: string;      // Name of the micro frontend that answered
+  timestamp: number; // When the ping was answered
+}
+
+// Map from request type to request and response payloads, open for augmentation
+export interface MicroFrontendRequestRegistry {
+  ping: { request: undefined; response: MicroFrontendPingResponse };
+}
+
+// Any request type known to the registry
+export type MicroFrontendRequestType = keyof MicroFrontendRequestRegistry & string;
+
+// Payload sent with a request
+export type MicroFrontendRequestPayload<K extends MicroFrontendRequestType> =
+  MicroFrontendRequestRegistry[K]['request'];
+
+// Payload returned by the handler of a request
+export type MicroFrontendResponsePayload<K extends MicroFrontendRequestType> =
+  MicroFrontendRequestRegistry[K]['response'];
+
+// Function answering requests of a given type
+export type MicroFrontendRequestHandler<K extends MicroFrontendRequestType> = (
+  payload: MicroFrontendRequestPayload<K>,
+  message: MicroFrontendMessage<MicroFrontendRequestPayload<K>>
+) => MicroFrontendResponsePayload<K> | Promise<MicroFrontendResponsePayload<K>>;
+
+// Options for a single request
+export interface MicroFrontendRequestOptions {
+  timeout?: number; // Milliseconds to wait for the response
+}
+
+// Reason a request failed
+export type MicroFrontendRequestErrorCode = 'NO_HANDLER' | 'TIMEOUT' | 'HANDLER_ERROR' | 'FORBIDDEN' | 'INVALID' | 'DROPPED';
+
+// Error a request promise is rejected with
+export interface MicroFrontendRequestError extends Error {
+  code: MicroFrontendRequestErrorCode;
+  correlationId?: string; // Correlation id of the failed request
+}
@@ -0,0 +1,46 @@
+/**
+ * Topic and broadcast helpers for the micro frontend message bus
+ *
+ * A topic is the `type` of a broadcast message. Topic names are dot-separated
+ * (`cart.updated`) and subscriptions match them with wildcard patterns:
+ * `*` matches exactly one segment and `**` matches any number of segments.
+ */
+
+import { MicroFrontendMessage } from './micro-frontend-api.types';
+
+// Target name that delivers a message to every micro frontend except its sender
+export const MICRO_FRONTEND_BROADCAST = '*';
+
+/**
+ * Checks whether a message is delivered to a micro frontend
+ * @param message The message to check
+ * @param name The name of the micro frontend
+ * @returns True for messages sent to the micro frontend or broadcast by another one
+ */
+export function isMessageForMicroFrontend(message: MicroFrontendMessage<unknown>, name: string): boolean {
+  return message.to === name || (message.to === MICRO_FRONTEND_BROADCAST && message.from !== name);
+}
+
+/**
+ * Checks whether a topic matches a subscription pattern
+ * @param pattern The pattern, e.g. `cart.*` or `cart.**`
+ * @param topic The topic of a message, e.g. `cart.updated`
+ * @returns True when the topic matches the pattern
+ */
+export function matchesTopicPattern(pattern: string, topic: string): boolean {
+  return matchSegments(pattern.split('.'), topic.split('.'));
+}
+
+function matchSegments(pattern: string[], topic: string[]): boolean {
+  if (pattern.length === 0) {
+    return topic.length === 0;
+  }
+
+  const [head, ...rest] = pattern;
+  if (head === '**') {
+    // Try every possible number of segments for the multi-segment wildcard
+    return topic.some((_, index) => matchSegments(rest, topic.slice(index))) || matchSegments(rest, []);
+  }
+
+  return topic.length > 0 && (head === '*' || head === topic[0]) && matchSegments(rest, topic.slice(1));
+}
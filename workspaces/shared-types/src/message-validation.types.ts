@@ -0,0 +1,37 @@
+/**
+ * Type definitions for runtime validation of micro frontend messages
+ *
+ * Compile-time payload types disappear at the federation boundary, so the shell
+ * validates every message against registered schemas before storing it.
+ */
+
+import { MicroFrontendMessage } from './micro-frontend-api.types';
+import { MicroFrontendMessageType } from './message-registry.types';
+
+// Checks a payload at runtime and returns the problems found (empty when valid)
+export type MicroFrontendPayloadValidator = (payload: unknown) => string[];
+
+// Validators keyed by message type; types without a validator are not checked
+export type MicroFrontendMessageSchemas = {
+  [K in MicroFrontendMessageType]?: MicroFrontendPayloadValidator;
+};
+
+// Reason a message was rejected by the shell
+export type MicroFrontendRejectionCode =
+  | 'INVALID_ENVELOPE' // Missing or malformed envelope fields
+  | 'INVALID_PAYLOAD'  // Payload rejected by the type's schema
+  | 'FORBIDDEN'        // Sender not allowed to send the type to the target
+  | 'DROPPED';         // Dropped by one of the shell's message interceptors
+
+// Structured error describing a rejected message
+export interface MicroFrontendMessageRejection {
+  code: MicroFrontendRejectionCode;
+  errors: string[];                     // Individual validation problems or policy violations
+  message: MicroFrontendMessage<unknown>; // The message as it was received
+  rejectedAt: number;                   // When the message was rejected
+}
+
+// Outcome of sending a message
+export type MicroFrontendSendResult =
+  | { accepted: true; deferred?: boolean } // Deferred when the verdict comes later, e.g. an interceptor delays the message, it crosses the bridge or another tab handles it; it may still be rejected
+  | { accepted: false; rejection: MicroFrontendMessageRejection };
@@ -5,13 +5,75 @@
  * It is published as an NPM package that all micro frontends can depend on.
  */
 
+import {
+  MicroFrontendMessagePayload,
+  MicroFrontendMessageType,
+  TypedMicroFrontendMessage,
+} from './message-registry.types';
+import { MicroFrontendSendResult } from './message-validation.types';
+import {
+  MicroFrontendRequestHandler,
+  MicroFrontendRequestOptions,
+  MicroFrontendRequestPayload,
+  MicroFrontendRequestType,
+  MicroFrontendResponsePayload,
+} from './message-request.types';
+
+// Filters and paging for message queries
+export interface MicroFrontendMessageQuery<K extends MicroFrontendMessageType = MicroFrontendMessageType> {
+  type?: K;                 // Only messages of this type
+  from?: string | string[]; // Only messages from these senders
+  since?: number;           // Only messages sent at or after this timestamp
+  until?: number;           // Only messages sent at or before this timestamp
+  order?: 'asc' | 'desc';   // Oldest first (default) or newest first
+  offset?: number;          // Number of matching messages to skip
+  limit?: number;           // Maximum number of messages to return
+}
+
+// Handle returned by a subscription
+export interface MicroFrontendSubscription {
+  unsubscribe(): void; // Stops delivery to the subscription's listener
+}
+
+// Anything that notifies when it is destroyed, such as Angular's DestroyRef
+export interface MicroFrontendDestroyRef {
+  onDestroy(callback: () => void): unknown;
+}
+
+// Options for a subscription
+export interface MicroFrontendSubscribeOptions {
+  destroyRef?: MicroFrontendDestroyRef; // Unsubscribes automatically when destroyed
+}
+
+// How a message reaches a recipient that has no subscription matching it yet
+export type MicroFrontendDeliveryMode =
+  | 'at-most-once'         // Only delivered to the subscriptions existing when it is sent
+  | 'replay-last-per-type' // Held until the recipient subscribes, replacing any held message of the same type
+  | 'replay-all-pending';  // Held until the recipient subscribes, in the order sent
+
+// Options for sending a message
+export interface MicroFrontendSendOptions {
+  delivery?: MicroFrontendDeliveryMode; // 'at-most-once' when omitted
+}
+
+// Listener receiving the messages matched by a subscription
+export type MicroFrontendMessageListener = (message: TypedMicroFrontendMessage) => void;
+
+// Role of a message in an exchange
+export type MicroFrontendMessageKind = 'message' | 'request' | 'response';
+
 // Message data that can be shared between micro frontends
 export interface MicroFrontendMessage<T = unknown> {
   from: string;      // Source micro frontend
-  to: string;        // Target micro frontend
+  to: string;        // Target micro frontend, or MICRO_FRONTEND_BROADCAST for everyone
   type: string;      // Message type for categorization
   payload: T;        // The actual message content
   timestamp: number; // When the message was sent
+  kind?: MicroFrontendMessageKind; // Role of the message, 'message' when omitted
+  correlationId?: string;          // Links a response to its request
+  id?: string;                     // Unique id assigned by the shell
+  originTabId?: string;            // Browser tab the message was sent from
+  delivery?: MicroFrontendDeliveryMode; // How the message reaches late subscribers, 'at-most-once' when omitted
 }
 
 // Event detail for the message event
@@ -20,19 +82,58 @@ export interface ChangedDataEvent<T = unknown> {
   previous?: MicroFrontendMessage<T>;
 }
 
+/**
+ * Injection token under which the shell provides each mounted micro frontend its own API handle.
+ * The class is merged with the interface below, so `inject(MicroFrontendApi)` is typed without
+ * this package depending on Angular; it is shared as a singleton through module federation.
+ */
+export abstract class MicroFrontendApi {}
+
 // Type for the communication API provided to each micro frontend
 export interface MicroFrontendApi {
-  // Get all messages sent to this micro frontend
-  getMessages<T = unknown>(filterType?: string): MicroFrontendMessage<T>[];
+  // Get the retained messages sent to this micro frontend, optionally filtered by type or query
+  getMessages<K extends MicroFrontendMessageType = MicroFrontendMessageType>(
+    filter?: K | MicroFrontendMessageQuery<K>
+  ): TypedMicroFrontendMessage<K>[];
   
   // Get the latest message of a specific type sent to this micro frontend
-  getLatestMessage<T = unknown>(type: string): MicroFrontendMessage<T> | undefined;
+  getLatestMessage<K extends MicroFrontendMessageType>(type: K): TypedMicroFrontendMessage<K> | undefined;
+  
+  // Send a message from this micro frontend to another; rejected messages are not delivered
+  sendMessage<K extends MicroFrontendMessageType>(
+    to: string,
+    type: K,
+    payload: MicroFrontendMessagePayload<K>,
+    options?: MicroFrontendSendOptions
+  ): MicroFrontendSendResult;
   
-  // Send a message from this micro frontend to another
-  sendMessage<T = unknown>(to: string, type: string, payload: T): void;
+  // Broadcast a message on a topic to every other micro frontend
+  publish<K extends MicroFrontendMessageType>(topic: K, payload: MicroFrontendMessagePayload<K>): MicroFrontendSendResult;
+  
+  // Receive messages delivered to this micro frontend whose type matches a topic pattern such as 'cart.*',
+  // starting with the held messages it matches
+  subscribe(
+    pattern: string,
+    listener: MicroFrontendMessageListener,
+    options?: MicroFrontendSubscribeOptions
+  ): MicroFrontendSubscription;
+  
+  // Send a request to another micro frontend and wait for its response
+  request<K extends MicroFrontendRequestType>(
+    to: string,
+    type: K,
+    payload: MicroFrontendRequestPayload<K>,
+    options?: MicroFrontendRequestOptions
+  ): Promise<MicroFrontendResponsePayload<K>>;
+  
+  // Answer requests of a specific type sent to this micro frontend; returns a function that removes the handler
+  handle<K extends MicroFrontendRequestType>(type: K, handler: MicroFrontendRequestHandler<K>): () => void;
 }
 
-// Type for the centralized API that provides access to all micro frontends
+/**
+ * Map of micro frontend names to their API handles
+ * @deprecated The shell no longer exposes this map on window; inject `MicroFrontendApi` instead
+ */
 export interface CentralizedApi {
   [microFrontendName: string]: MicroFrontendApi;
 }
\ No newline at end of file
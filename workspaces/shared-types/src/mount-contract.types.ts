@@ -0,0 +1,66 @@
+/**
+ * Type definitions for the inputs and outputs of remote components mounted by the shell
+ *
+ * The mount registry maps every remote name to the inputs its exposed component
+ * accepts and the outputs it emits. The shell sets the inputs when it mounts the
+ * remote and again whenever they change, and subscribes to the outputs. New
+ * remotes add their contract through module augmentation:
+ *
+ * ```typescript
+ * declare module '@angular-microfrontends-poc/shared-types' {
+ *   interface MicroFrontendMountRegistry {
+ *     'orders-app': { inputs: { customerId: number }; outputs: { orderSelected: number } };
+ *   }
+ * }
+ * ```
+ */
+
+// Map from remote name to the inputs and outputs of its component, open for augmentation
+export interface MicroFrontendMountRegistry {
+  'feature-one-app': { inputs: {}; outputs: {} };
+  'feature-two-app': {
+    inputs: { contextId: string | undefined };  // Business context the embedded remote works on
+    outputs: { messageSent: string };           // Text of every message the remote sends
+  };
+}
+
+// Any remote with a mount contract
+export type MicroFrontendMountName = keyof MicroFrontendMountRegistry & string;
+
+// Inputs accepted by a remote's component
+export type MicroFrontendMountInputs<K extends MicroFrontendMountName> = MicroFrontendMountRegistry[K]['inputs'];
+
+// Outputs emitted by a remote's component
+export type MicroFrontendMountOutputs<K extends MicroFrontendMountName> = MicroFrontendMountRegistry[K]['outputs'];
+
+// Subscription to an output, as returned by Angular's output() and EventEmitter
+export interface MicroFrontendOutputSubscription {
+  unsubscribe(): void;
+}
+
+/**
+ * Shape a remote component must have to honour its contract.
+ * Angular's `input()` and `output()` match it, so the remote checks its component with
+ * `class FeatureTwoApp implements MicroFrontendMountable<'feature-two-app'>`.
+ */
+export type MicroFrontendMountable<K extends MicroFrontendMountName> = {
+  [I in keyof MicroFrontendMountInputs<K>]: () => MicroFrontendMountInputs<K>[I];
+} & {
+  [O in keyof MicroFrontendMountOutputs<K>]: {
+    subscribe(listener: (value: MicroFrontendMountOutputs<K>[O]) => void): MicroFrontendOutputSubscription;
+  };
+};
+
+// Inputs set by the shell when it mounts a remote
+export type MicroFrontendMountBindings<K extends MicroFrontendMountName> = Partial<MicroFrontendMountInputs<K>>;
+
+// Value emitted by an output of a mounted remote, as reported by the shell
+export type MicroFrontendOutputEvent<K extends MicroFrontendMountName = MicroFrontendMountName> = {
+  [N in K]: {
+    [O in keyof MicroFrontendMountOutputs<N> & string]: {
+      remote: N;
+      output: O;
+      value: MicroFrontendMountOutputs<N>[O];
+    };
+  }[keyof MicroFrontendMountOutputs<N> & string];
+}[K];
@@ -0,0 +1,108 @@
+/**
+ * Navigation between micro frontends
+ *
+ * Every remote owns the URLs below its route in the shell: feature-one-app, routed
+ * at `/one`, owns `/one/details/42`. Remotes never touch the shell's router; they
+ * ask the shell to navigate through the handle it issues to them, and read the
+ * current location from it. Paths are relative to the remote's route and may
+ * contain `:param` placeholders.
+ */
+
+import { MicroFrontendDestroyRef, MicroFrontendSubscription } from './micro-frontend-api.types';
+
+// Where to navigate to
+export interface MicroFrontendNavigationTarget {
+  remote: string;                           // Name of the remote whose route to open
+  path?: string;                            // Path below the remote's route, e.g. 'details/:id'
+  params?: Record<string, string | number>; // Values of the path's placeholders
+  queryParams?: Record<string, string>;     // Query parameters of the URL
+  replaceUrl?: boolean;                     // Replace the current history entry instead of adding one
+}
+
+// Current URL of the shell, as seen by micro frontends
+export interface MicroFrontendLocation {
+  url: string;                         // Full URL of the shell, e.g. '/one/details/42?tab=notes'
+  remote: string | null;               // Remote whose route is active, null on the shell's own pages
+  path: string;                        // Path below the active remote's route, '' at its root
+  queryParams: Record<string, string>; // Query parameters of the URL
+}
+
+// Listener notified after every navigation of the shell
+export type MicroFrontendLocationListener = (location: MicroFrontendLocation) => void;
+
+/**
+ * Injection token under which the shell provides each mounted micro frontend its navigation handle.
+ * Like `MicroFrontendApi`, the class is merged with the interface below.
+ */
+export abstract class MicroFrontendNavigation {}
+
+// Navigation handle issued to a micro frontend
+export interface MicroFrontendNavigation {
+  // Current location of the shell; the shell issues an Angular signal
+  location: () => MicroFrontendLocation;
+
+  // Open a route of any remote; resolves to false when the remote is unknown or the navigation failed
+  navigate(target: MicroFrontendNavigationTarget): Promise<boolean>;
+
+  // Open a path below this micro frontend's own route
+  navigateWithin(
+    path: string,
+    options?: Omit<MicroFrontendNavigationTarget, 'remote' | 'path'>
+  ): Promise<boolean>;
+
+  // Be notified after every navigation of the shell
+  onLocationChange(
+    listener: MicroFrontendLocationListener,
+    options?: { destroyRef?: MicroFrontendDestroyRef }
+  ): MicroFrontendSubscription;
+}
+
+/**
+ * Replaces the `:param` placeholders of a path
+ * @param path The path, e.g. 'details/:id'
+ * @param params The values of the placeholders
+ * @returns The path with encoded values, e.g. 'details/42'
+ * @throws When a placeholder has no value
+ */
+export function buildMicroFrontendPath(path: string, params: Record<string, string | number> = {}): string {
+  return splitPath(path)
+    .map(segment => {
+      if (!segment.startsWith(':')) {
+        return segment;
+      }
+      const value = params[segment.slice(1)];
+      if (value === undefined) {
+        throw new Error(`No value for the parameter ${segment} of the path '${path}'`);
+      }
+      return encodeURIComponent(String(value));
+    })
+    .join('/');
+}
+
+/**
+ * Matches a path against a pattern with `:param` placeholders
+ * @param pattern The pattern, e.g. 'details/:id'
+ * @param path The path, e.g. 'details/42'
+ * @returns The decoded values of the placeholders, undefined when the path does not match
+ */
+export function matchMicroFrontendPath(pattern: string, path: string): Record<string, string> | undefined {
+  const patternSegments = splitPath(pattern);
+  const pathSegments = splitPath(path);
+  if (patternSegments.length !== pathSegments.length) {
+    return undefined;
+  }
+
+  const params: Record<string, string> = {};
+  for (const [index, segment] of patternSegments.entries()) {
+    if (segment.startsWith(':')) {
+      params[segment.slice(1)] = decodeURIComponent(pathSegments[index]);
+    } else if (segment !== pathSegments[index]) {
+      return undefined;
+    }
+  }
+  return params;
+}
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter(segment => segment.length > 0);
+}
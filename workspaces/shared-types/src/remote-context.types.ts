@@ -0,0 +1,23 @@
+/**
+ * Type definitions for the context the shell mounts a remote with
+ *
+ * The shell creates one environment injector per mounted remote. Besides the
+ * remote's API handle, it provides the remote's name and configuration under
+ * `MicroFrontendRemoteContext`, and destroys the injector when the remote unmounts.
+ */
+
+/**
+ * Injection token under which the shell provides a mounted remote its context.
+ * Like `MicroFrontendApi`, the class is merged with the interface below so it can be
+ * injected with `inject(MicroFrontendRemoteContext, { optional: true })`.
+ */
+export abstract class MicroFrontendRemoteContext {}
+
+// Context of one mount of a remote
+export interface MicroFrontendRemoteContext {
+  readonly name: string;                              // Name the shell assigned to the remote
+  readonly displayName: string;                       // Label of the remote in the shell
+  readonly routePath: string;                         // Route path of the remote in the shell
+  readonly mountId: string;                           // Identifies this mount among other mounts of the remote
+  readonly config: Readonly<Record<string, unknown>>; // Remote-specific settings from the shell's manifest
+}
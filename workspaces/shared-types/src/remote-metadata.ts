@@ -0,0 +1,47 @@
+/**
+ * Metadata remotes expose to the shell's remote registry
+ *
+ * Modules of this package are shared as singletons at runtime, so a remote cannot
+ * learn the contract version it was built against from them. Remotes therefore
+ * report the version of this package they declare as a dependency.
+ */
+
+// Module every remote exposes with its metadata
+export const MICRO_FRONTEND_METADATA_MODULE = './Metadata';
+
+// Metadata exported as `metadata` by the metadata module
+export interface MicroFrontendRemoteMetadata {
+  name: string;         // Name of the remote, as in the shell's manifest
+  version: string;      // Version of the remote application
+  apiVersion: string;   // Version or range of this package the remote was built against
+  description?: string; // Short description shown in the shell's dashboard
+}
+
+/**
+ * Extracts the major and minor version of a version or a caret/tilde range
+ * @param version A version such as '1.2.3', '^1.2.0' or '~1.2'
+ * @returns The major and minor version, undefined when the version cannot be read
+ */
+export function parseApiVersion(version: string): { major: number; minor: number } | undefined {
+  const match = /^[\^~=v]*(\d+)(?:\.(\d+))?/.exec(version.trim());
+  if (!match) {
+    return undefined;
+  }
+  return { major: Number(match[1]), minor: Number(match[2] ?? 0) };
+}
+
+/**
+ * Checks whether a remote built against one contract version works with the shell's contract version.
+ * Versions are compatible when their major versions match, and for 0.x versions their minor versions too.
+ * @param shellVersion The contract version of the shell
+ * @param remoteVersion The contract version of the remote
+ * @returns True when the remote can use the shell's API
+ */
+export function isCompatibleApiVersion(shellVersion: string, remoteVersion: string): boolean {
+  const shell = parseApiVersion(shellVersion);
+  const remote = parseApiVersion(remoteVersion);
+  if (!shell || !remote || shell.major !== remote.major) {
+    return false;
+  }
+  return shell.major > 0 || shell.minor === remote.minor;
+}
@@ -0,0 +1,42 @@
+/**
+ * Type definitions for the session the shell shares with micro frontends
+ *
+ * The shell signs the user in through its auth provider and owns the session.
+ * Micro frontends read it through the handle the shell issues them, and are told
+ * it expired by the 'session.expired' message the shell publishes, but never
+ * change it. Tokens stay with the shell; micro frontends only see when they expire.
+ */
+
+// User signed in to the shell
+export interface MicroFrontendUser {
+  id: string;   // Identifier of the user at the identity provider
+  name: string; // Name to display
+}
+
+// Session of the signed-in user
+export interface MicroFrontendSession {
+  user: MicroFrontendUser;
+  roles: string[];   // Roles granted to the user, deciding which remotes are accessible
+  expiresAt: number; // When the session's token expires, in milliseconds since the epoch
+}
+
+// Payload of the 'session.expired' message, published to every micro frontend
+export interface MicroFrontendSessionExpiredEvent {
+  userId: string;    // User whose session expired
+  expiredAt: number; // When the session expired
+}
+
+/**
+ * Injection token under which the shell provides each mounted micro frontend the session.
+ * Like `MicroFrontendApi`, the class is merged with the interface below.
+ */
+export abstract class MicroFrontendSessionContext {}
+
+// Read-only view of the shell's session, issued to a micro frontend
+export interface MicroFrontendSessionContext {
+  // Session of the signed-in user, null when signed out; the shell issues an Angular signal
+  session: () => MicroFrontendSession | null;
+
+  // Whether the signed-in user has a role
+  hasRole(role: string): boolean;
+}
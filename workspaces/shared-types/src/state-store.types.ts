@@ -0,0 +1,74 @@
+/**
+ * Type definitions for the state the shell shares with micro frontends
+ *
+ * The shell owns a store made of named slices. Every micro frontend may read any
+ * slice through selectors, but only the owners the shell declares for a slice may
+ * write it. Values are frozen, so updates always produce a new value. New slices
+ * are added through module augmentation:
+ *
+ * ```typescript
+ * declare module '@angular-microfrontends-poc/shared-types' {
+ *   interface MicroFrontendStateRegistry {
+ *     'orders.filter': { status: string };
+ *   }
+ * }
+ * ```
+ */
+
+// Map from slice name to the type of its value, open for augmentation
+export interface MicroFrontendStateRegistry {
+  currentUser: { id: string; name: string } | null;       // User signed in to the shell
+  selectedCustomer: { id: string; name: string } | null;  // Customer the user is working on
+  cart: { items: { sku: string; quantity: number }[] };   // Items the user is about to order
+}
+
+// Any registered slice
+export type MicroFrontendStateSlice = keyof MicroFrontendStateRegistry & string;
+
+// Value of a slice
+export type MicroFrontendStateValue<K extends MicroFrontendStateSlice> = MicroFrontendStateRegistry[K];
+
+// Deeply read-only view of a value, as stored by the shell
+export type MicroFrontendImmutable<T> = T extends (...args: never[]) => unknown
+  ? T
+  : T extends object
+    ? { readonly [P in keyof T]: MicroFrontendImmutable<T[P]> }
+    : T;
+
+// Reactive read access to a value; the shell issues Angular computed signals
+export type MicroFrontendStateSelector<T> = () => T;
+
+// Reason an update was refused by the shell
+export type MicroFrontendStateErrorCode =
+  | 'UNKNOWN_SLICE' // The shell does not hold the slice
+  | 'FORBIDDEN';    // The writer does not own the slice
+
+// Outcome of writing a slice
+export type MicroFrontendStateUpdateResult =
+  | { accepted: true }
+  | { accepted: false; code: MicroFrontendStateErrorCode; error: string };
+
+/**
+ * Injection token under which the shell provides each mounted micro frontend its store handle.
+ * Like `MicroFrontendApi`, the class is merged with the interface below.
+ */
+export abstract class MicroFrontendStateStore {}
+
+// Store handle issued to a micro frontend; writes are made on its behalf
+export interface MicroFrontendStateStore {
+  select<K extends MicroFrontendStateSlice>(slice: K): MicroFrontendStateSelector<MicroFrontendImmutable<MicroFrontendStateValue<K>>>;
+  select<K extends MicroFrontendStateSlice, R>(
+    slice: K,
+    projector: (value: MicroFrontendImmutable<MicroFrontendStateValue<K>>) => R
+  ): MicroFrontendStateSelector<R>;
+  snapshot<K extends MicroFrontendStateSlice>(slice: K): MicroFrontendImmutable<MicroFrontendStateValue<K>>;
+  set<K extends MicroFrontendStateSlice>(
+    slice: K,
+    value: MicroFrontendImmutable<MicroFrontendStateValue<K>>
+  ): MicroFrontendStateUpdateResult;
+  update<K extends MicroFrontendStateSlice>(
+    slice: K,
+    updater: (current: MicroFrontendImmutable<MicroFrontendStateValue<K>>) => MicroFrontendImmutable<MicroFrontendStateValue<K>>
+  ): MicroFrontendStateUpdateResult;
+  canWrite(slice: MicroFrontendStateSlice): boolean;
+}
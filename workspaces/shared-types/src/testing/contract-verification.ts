@@ -0,0 +1,239 @@
+/**
+ * Verification of message contracts
+ *
+ * Examples describe the shape of payloads: a field the receiving side relies on
+ * must be present, with the same kind of value, in the sending side's example.
+ * Problems are returned as strings, like the problems found by payload validators.
+ */
+
+import { MicroFrontendApi, MicroFrontendMessage } from '../micro-frontend-api.types';
+import { MicroFrontendMessagePayload, MicroFrontendMessageType } from '../message-registry.types';
+import { MicroFrontendRequestPayload, MicroFrontendRequestType } from '../message-request.types';
+import { MICRO_FRONTEND_BROADCAST } from '../message-topics';
+import { MicroFrontendDeliveryObserver } from '../message-delivery';
+import { MicroFrontendContract } from './contract.types';
+
+// Sender used to verify answers declared for any micro frontend
+const CONTRACT_VERIFIER = 'contract-verifier';
+
+/**
+ * Host a micro frontend is verified on: an `InMemoryMicroFrontendBus` for remotes,
+ * the shell's communication service for the shell
+ */
+export interface MicroFrontendContractHost {
+  issueApi(name: string): MicroFrontendApi;
+  isSubscribed(name: string, type: string): boolean;
+  isHandled(name: string, type: string): boolean;
+  observeDeliveries(observer: MicroFrontendDeliveryObserver): () => void;
+}
+
+/**
+ * Checks that a value has the shape of an example
+ * @param expected The example; undefined accepts any value
+ * @param actual The value to check
+ * @param path Where the value is, used in the problems
+ * @returns The problems found, empty when the value has the shape of the example
+ */
+export function findShapeProblems(expected: unknown, actual: unknown, path = 'payload'): string[] {
+  if (expected === undefined) {
+    return [];
+  }
+
+  const expectedKind = kindOf(expected);
+  const actualKind = kindOf(actual);
+  if (expectedKind !== actualKind) {
+    return [`${path} should be ${expectedKind} but is ${actualKind}`];
+  }
+
+  if (Array.isArray(expected)) {
+    // The first item of an example array describes every item
+    const [item] = expected;
+    return (actual as unknown[]).flatMap((value, index) => findShapeProblems(item, value, `${path}[${index}]`));
+  }
+
+  if (expectedKind === 'object') {
+    const fields = actual as Record<string, unknown>;
+    return Object.entries(expected as Record<string, unknown>).flatMap(([key, value]) =>
+      key in fields ? findShapeProblems(value, fields[key], `${path}.${key}`) : [`${path}.${key} is missing`]
+    );
+  }
+
+  return [];
+}
+
+/**
+ * Checks contracts against each other, without running any micro frontend:
+ * every expected message must be sent, every sent message expected, and every request answered
+ * @param contracts The contracts of the micro frontends exchanging messages
+ * @returns The problems found, empty when the contracts agree
+ */
+export function verifyContracts(contracts: MicroFrontendContract[]): string[] {
+  const problems: string[] = [];
+  const byName = new Map<string, MicroFrontendContract>();
+
+  for (const contract of contracts) {
+    if (byName.has(contract.name)) {
+      problems.push(`${contract.name} has more than one contract`);
+    }
+    byName.set(contract.name, contract);
+  }
+
+  for (const consumer of contracts) {
+    for (const expected of consumer.expects ?? []) {
+      const description = `${consumer.name} expects '${expected.type}' from ${expected.from}`;
+      const provider = byName.get(expected.from);
+      if (!provider) {
+        problems.push(`${description}, which has no contract`);
+        continue;
+      }
+
+      const sends = (provider.sends ?? []).filter(
+        ({ to, type }) => type === expected.type && (to === consumer.name || to === MICRO_FRONTEND_BROADCAST)
+      );
+      if (sends.length === 0) {
+        problems.push(`${description}, which ${provider.name} does not send`);
+      }
+      for (const sent of sends) {
+        problems.push(...prefix(description, findShapeProblems(expected.example, sent.example)));
+      }
+    }
+
+    for (const sent of consumer.sends ?? []) {
+      if (sent.to === MICRO_FRONTEND_BROADCAST) {
+        continue;
+      }
+
+      const description = `${consumer.name} sends '${sent.type}' to ${sent.to}`;
+      const recipient = byName.get(sent.to);
+      if (!recipient) {
+        problems.push(`${description}, which has no contract`);
+      } else if (!(recipient.expects ?? []).some(({ from, type }) => from === consumer.name && type === sent.type)) {
+        problems.push(`${description}, which ${recipient.name} does not expect`);
+      }
+    }
+
+    for (const request of consumer.requests ?? []) {
+      const description = `${consumer.name} requests '${request.type}' from ${request.to}`;
+      const provider = byName.get(request.to);
+      if (!provider) {
+        problems.push(`${description}, which has no contract`);
+        continue;
+      }
+
+      const answer = (provider.answers ?? []).find(
+        ({ from, type }) => type === request.type && (from === consumer.name || from === MICRO_FRONTEND_BROADCAST)
+      );
+      if (!answer) {
+        problems.push(`${description}, which ${provider.name} does not answer`);
+        continue;
+      }
+      problems.push(
+        ...prefix(description, findShapeProblems(answer.example, request.example)),
+        ...prefix(description, findShapeProblems(request.response, answer.response, 'response'))
+      );
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Checks the messages and requests a micro frontend sent, for instance while a test drove it
+ * on an in-memory bus, against the ones its contract declares
+ * @param contract The contract of the micro frontend
+ * @param messages The messages exchanged, such as the history of the bus
+ * @returns The problems found, empty when every message sent is declared with the shape sent
+ */
+export function verifyProvider(contract: MicroFrontendContract, messages: MicroFrontendMessage<unknown>[]): string[] {
+  return messages
+    .filter(({ from, kind }) => from === contract.name && kind !== 'response')
+    .flatMap(message => {
+      const description = `${contract.name} sent '${message.type}' to ${message.to}`;
+
+      if (message.kind === 'request') {
+        const declared = (contract.requests ?? []).find(({ to, type }) => to === message.to && type === message.type);
+        return declared
+          ? prefix(description, findShapeProblems(declared.example, message.payload))
+          : [`${description} as a request, which its contract does not declare`];
+      }
+
+      const declared = (contract.sends ?? []).find(({ to, type }) => to === message.to && type === message.type);
+      if (!declared) {
+        return [`${description}, which its contract does not declare`];
+      }
+      if (declared.delivery && declared.delivery !== (message.delivery ?? 'at-most-once')) {
+        return [`${description} with the ${message.delivery ?? 'at-most-once'} delivery mode instead of ${declared.delivery}`];
+      }
+      return prefix(description, findShapeProblems(declared.example, message.payload));
+    });
+}
+
+/**
+ * Checks that a micro frontend receives the messages its contract expects and answers the requests
+ * it declares, by sending the contract's examples on behalf of the other side
+ * @param contract The contract of the micro frontend
+ * @param host The bus or shell the micro frontend runs on
+ * @returns The problems found, empty when every expected message is received and every request answered
+ */
+export async function verifyConsumer(contract: MicroFrontendContract, host: MicroFrontendContractHost): Promise<string[]> {
+  const problems: string[] = [];
+
+  for (const expected of contract.expects ?? []) {
+    const description = `${contract.name} expecting '${expected.type}' from ${expected.from}`;
+    if (!host.isSubscribed(contract.name, expected.type)) {
+      problems.push(`${description} does not subscribe to it`);
+      continue;
+    }
+
+    // Delivery is synchronous unless an interceptor delays the message, so the example is received before sendMessage returns
+    let received = false;
+    const stop = host.observeDeliveries((message, recipient) => {
+      received ||= recipient === contract.name && message.from === expected.from && message.type === expected.type;
+    });
+
+    // Contracts are data, so their types and examples are not checked against the registry
+    const type = expected.type as MicroFrontendMessageType;
+    const result = host
+      .issueApi(expected.from)
+      .sendMessage(contract.name, type, expected.example as MicroFrontendMessagePayload<typeof type>);
+    stop();
+
+    if (!result.accepted) {
+      problems.push(`${description} rejects the example (${result.rejection.code}): ${result.rejection.errors.join(', ')}`);
+    } else if (!received) {
+      problems.push(`${description} did not receive the example`);
+    }
+  }
+
+  for (const answer of contract.answers ?? []) {
+    const description = `${contract.name} answering '${answer.type}'`;
+    if (!host.isHandled(contract.name, answer.type)) {
+      problems.push(`${description} has no handler`);
+      continue;
+    }
+
+    const from = answer.from === MICRO_FRONTEND_BROADCAST ? CONTRACT_VERIFIER : answer.from;
+    const type = answer.type as MicroFrontendRequestType;
+    try {
+      const response = await host
+        .issueApi(from)
+        .request(contract.name, type, answer.example as MicroFrontendRequestPayload<typeof type>);
+      problems.push(...prefix(description, findShapeProblems(answer.response, response, 'response')));
+    } catch (error) {
+      problems.push(`${description} failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return problems;
+}
+
+function kindOf(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function prefix(description: string, problems: string[]): string[] {
+  return problems.map(problem => `${description}: ${problem}`);
+}
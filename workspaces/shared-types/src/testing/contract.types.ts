@@ -0,0 +1,50 @@
+/**
+ * Type definitions for message contracts
+ *
+ * A contract declares the messages a micro frontend sends and expects, and the
+ * requests it sends and answers. Every contract is checked against the others
+ * without running any micro frontend, and each micro frontend is checked
+ * against its own contract by tests running it on an in-memory bus.
+ */
+
+import { MicroFrontendDeliveryMode } from '../micro-frontend-api.types';
+
+// Message a micro frontend sends; `to` is '*' for messages published to every micro frontend
+export interface MicroFrontendContractSend {
+  to: string;                           // Name of the recipient, or '*'
+  type: string;                         // Message type
+  example?: unknown;                    // Payload the micro frontend sends, describing its shape
+  delivery?: MicroFrontendDeliveryMode; // Delivery mode the message is sent with
+}
+
+// Message a micro frontend expects to receive
+export interface MicroFrontendContractExpect {
+  from: string;      // Name of the sender
+  type: string;      // Message type
+  example?: unknown; // Payload the micro frontend relies on; its fields must be present in the sender's example
+}
+
+// Request a micro frontend sends
+export interface MicroFrontendContractRequest {
+  to: string;         // Name of the micro frontend answering
+  type: string;       // Request type
+  example?: unknown;  // Payload of the request
+  response?: unknown; // Response the micro frontend relies on; its fields must be present in the answer's example
+}
+
+// Request a micro frontend answers; `from` is '*' for requests answered for anyone
+export interface MicroFrontendContractAnswer {
+  from: string;       // Name of the micro frontend requesting, or '*'
+  type: string;       // Request type
+  example?: unknown;  // Payload the handler relies on; its fields must be present in the request's example
+  response?: unknown; // Response the handler returns
+}
+
+// Messages and requests exchanged by a micro frontend, stored as its `mf.contract.json`
+export interface MicroFrontendContract {
+  name: string;                              // Name of the micro frontend, as assigned by the shell
+  sends?: MicroFrontendContractSend[];
+  expects?: MicroFrontendContractExpect[];
+  requests?: MicroFrontendContractRequest[];
+  answers?: MicroFrontendContractAnswer[];
+}
@@ -0,0 +1,7 @@
+/**
+ * Entry point of the testing kit, imported from '@angular-microfrontends-poc/shared-types/testing'.
+ * Contract verification is free of Angular; mounting micro frontends needs it.
+ */
+export * from './contract.types';
+export * from './contract-verification';
+export * from './micro-frontend-harness';
\ No newline at end of file
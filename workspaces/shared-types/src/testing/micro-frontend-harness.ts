@@ -0,0 +1,96 @@
+/**
+ * Harness running micro frontends without the shell
+ *
+ * A remote component is mounted the way the shell mounts it: with an environment
+ * injector of its own providing its API handle and remote context, both issued
+ * here by an in-memory bus. Tests then play the shell and the other remotes
+ * through the bus. Mounting needs a DOM, such as the one of jsdom or a browser.
+ */
+
+import {
+  ComponentRef,
+  createComponent,
+  createEnvironmentInjector,
+  EnvironmentInjector,
+  EnvironmentProviders,
+  inject,
+  Provider,
+  Type,
+} from '@angular/core';
+import { CentralizedApi, MicroFrontendApi, MicroFrontendMessage } from '../micro-frontend-api.types';
+import { MicroFrontendRemoteContext } from '../remote-context.types';
+import { InMemoryMicroFrontendBus } from '../in-memory-bus';
+
+// How to mount a micro frontend
+export interface MountMicroFrontendOptions {
+  name: string;                                    // Name the micro frontend is mounted with
+  environmentInjector?: EnvironmentInjector;       // Parent of the mount's injector, the one of the injection context when omitted
+  bus?: InMemoryMicroFrontendBus;                  // Bus the micro frontend talks to, a new one when omitted
+  config?: Record<string, unknown>;                // Config of the remote context, empty when omitted
+  providers?: (Provider | EnvironmentProviders)[]; // Further providers of the mount, e.g. provideRouter([])
+  inputs?: Record<string, unknown>;                // Inputs set on the component before it is first rendered
+}
+
+// Micro frontend mounted by `mountMicroFrontend`
+export interface MountedMicroFrontend<T> {
+  componentRef: ComponentRef<T>;
+  bus: InMemoryMicroFrontendBus;
+  api: MicroFrontendApi;   // API handle issued to the micro frontend
+  sent(): MicroFrontendMessage<unknown>[]; // Messages and requests sent by the micro frontend so far
+  destroy(): void;         // Destroys the component and its injector, like the shell unmounting it
+}
+
+/**
+ * Issues the API handles of several micro frontends from an in-memory bus
+ * @param bus The bus issuing the handles
+ * @param names The names of the micro frontends
+ * @returns The handles, keyed by name
+ */
+export function createInMemoryCentralizedApi(bus: InMemoryMicroFrontendBus, names: string[]): CentralizedApi {
+  return Object.fromEntries(names.map(name => [name, bus.issueApi(name)]));
+}
+
+/**
+ * Mounts a remote component on an in-memory bus and renders it once. Without an environment injector,
+ * it must be called in an injection context, e.g. `TestBed.runInInjectionContext(() => mountMicroFrontend(...))`
+ * @param component The component the remote exposes
+ * @param options The name to mount it with and the injector to mount it in
+ * @returns The mounted micro frontend
+ */
+export function mountMicroFrontend<T>(component: Type<T>, options: MountMicroFrontendOptions): MountedMicroFrontend<T> {
+  const bus = options.bus ?? new InMemoryMicroFrontendBus();
+  const api = bus.issueApi(options.name);
+
+  const context: MicroFrontendRemoteContext = Object.freeze({
+    name: options.name,
+    displayName: options.name,
+    routePath: options.name,
+    mountId: crypto.randomUUID(),
+    config: Object.freeze({ ...options.config }),
+  });
+
+  const injector = createEnvironmentInjector(
+    [
+      { provide: MicroFrontendApi, useValue: api },
+      { provide: MicroFrontendRemoteContext, useValue: context },
+      ...(options.providers ?? []),
+    ],
+    options.environmentInjector ?? inject(EnvironmentInjector),
+    `${options.name} (${context.mountId})`
+  );
+
+  const componentRef = createComponent(component, { environmentInjector: injector });
+  Object.entries(options.inputs ?? {}).forEach(([name, value]) => componentRef.setInput(name, value));
+  componentRef.changeDetectorRef.detectChanges();
+
+  return {
+    componentRef,
+    bus,
+    api,
+    sent: () => bus.history().filter(({ from, kind }) => from === options.name && kind !== 'response'),
+    destroy: () => {
+      componentRef.destroy();
+      injector.destroy();
+    },
+  };
+}